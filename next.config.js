@@ -1,6 +1,22 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // App directory is stable in Next.js 13+ and doesn't need experimental flag
+
+  // Scripts only come from this app. Workers inherit the policy, so user code
+  // in the custom eval and tool mock workers cannot `import()` from other hosts.
+  async headers() {
+    return [
+      {
+        source: '/:path*',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: "script-src 'self' 'unsafe-inline' 'unsafe-eval' blob:; worker-src 'self' blob:",
+          },
+        ],
+      },
+    ]
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
@@ -1,170 +1,215 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import axios from 'axios'
-
-interface CompletionRequest {
-  provider: string
-  modelId: string
-  prompt: string
-  systemMessage?: string
-  temperature?: number
-  maxTokens?: number
-  topP?: number
-  apiKey?: string
-  useOpenRouter?: boolean
+import { providerRegistry } from '@/lib/providers/provider-registry'
+import { CustomEndpointProvider, isEndpointAllowed } from '@/lib/providers/custom-endpoint-provider'
+import { primeStream, toNDJSONStream, NDJSON_CONTENT_TYPE } from '@/lib/providers/streaming'
+import { toErrorInfo } from '@/lib/providers/errors'
+import { IMAGE_MEDIA_TYPES } from '@/lib/providers/messages'
+import { validateToolDefinition } from '@/lib/providers/tools'
+import { validateResponseFormat, withStructuredOutput, withStructuredOutputChunks } from '@/lib/providers/structured-output'
+import { ChatMessage, CompletionParams, CompletionRequest, CustomEndpoint, ErrorInfo, ImageInput, ToolCall, ToolDefinition } from '@/lib/providers/types'
+
+/**
+ * Check user-supplied sampling parameters, returning a message for the first invalid one
+ */
+function validateSamplingParams(params: CompletionParams): string | null {
+  const { temperature, topP, maxTokens, stopSequences, ollamaOptions } = params
+
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    return 'temperature must be a number between 0 and 2'
+  }
+  if (topP !== undefined && (typeof topP !== 'number' || topP < 0 || topP > 1)) {
+    return 'topP must be a number between 0 and 1'
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    return 'maxTokens must be a positive integer'
+  }
+  if (stopSequences !== undefined && (!Array.isArray(stopSequences) || stopSequences.some(s => typeof s !== 'string'))) {
+    return 'stopSequences must be an array of strings'
+  }
+  if (ollamaOptions?.numCtx !== undefined && (!Number.isInteger(ollamaOptions.numCtx) || ollamaOptions.numCtx < 1)) {
+    return 'ollamaOptions.numCtx must be a positive integer'
+  }
+  if (ollamaOptions?.seed !== undefined && !Number.isInteger(ollamaOptions.seed)) {
+    return 'ollamaOptions.seed must be an integer'
+  }
+  if (ollamaOptions?.repeatPenalty !== undefined && (typeof ollamaOptions.repeatPenalty !== 'number' || ollamaOptions.repeatPenalty < 0)) {
+    return 'ollamaOptions.repeatPenalty must be a non-negative number'
+  }
+  return null
+}
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool']
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/
+
+/**
+ * Check images attached to a turn, returning a message for the first invalid one
+ */
+function validateImages(images: ImageInput[] | undefined, label: string): string | null {
+  if (images === undefined) return null
+  if (!Array.isArray(images)) {
+    return `${label} must be an array`
+  }
+  const index = images.findIndex(image =>
+    !IMAGE_MEDIA_TYPES.includes(image?.mediaType) ||
+    typeof image.data !== 'string' ||
+    !BASE64_PATTERN.test(image.data)
+  )
+  if (index !== -1) {
+    return `${label}[${index}] must have a mediaType of ${IMAGE_MEDIA_TYPES.join(', ')} and base64 data`
+  }
+  return null
+}
+
+const isToolCall = (call: ToolCall) =>
+  typeof call?.id === 'string' && typeof call.name === 'string' && typeof call.arguments === 'string'
+
+/**
+ * Check turns of a conversation, returning a message for the first invalid one
+ */
+function validateMessages(messages: ChatMessage[] | undefined, label = 'messages'): string | null {
+  if (messages === undefined) return null
+  if (!Array.isArray(messages)) {
+    return `${label} must be an array`
+  }
+  const index = messages.findIndex(message =>
+    !MESSAGE_ROLES.includes(message?.role) ||
+    typeof message.content !== 'string' ||
+    (message.name !== undefined && typeof message.name !== 'string')
+  )
+  if (index !== -1) {
+    return `${label}[${index}] must have a role of system, user, assistant or tool, string content and an optional string name`
+  }
+  for (const [index, message] of messages.entries()) {
+    const invalidImages = validateImages(message.images, `${label}[${index}].images`)
+    if (invalidImages) return invalidImages
+    if (message.toolCalls !== undefined && (!Array.isArray(message.toolCalls) || !message.toolCalls.every(isToolCall))) {
+      return `${label}[${index}].toolCalls must be calls with a string id, name and arguments`
+    }
+    if (message.role === 'tool' && typeof message.toolCallId !== 'string') {
+      return `${label}[${index}] is a tool result and needs the toolCallId it answers`
+    }
+  }
+  return null
+}
+
+/**
+ * Check the tools offered to the model, returning a message for the first invalid one
+ */
+function validateTools(tools: ToolDefinition[] | undefined): string | null {
+  if (tools === undefined) return null
+  if (!Array.isArray(tools)) {
+    return 'tools must be an array'
+  }
+  for (const [index, tool] of tools.entries()) {
+    const issues = validateToolDefinition(tool)
+    if (issues.length > 0) {
+      return `tools[${index}]: ${issues[0]}`
+    }
+  }
+  const names = tools.map(tool => tool.name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  return duplicate ? `Tool ${duplicate} is defined more than once` : null
+}
+
+/**
+ * Check a custom endpoint sent with the request, returning a message if it is unusable
+ */
+function validateEndpoint(endpoint: CustomEndpoint | undefined): string | null {
+  if (!endpoint || typeof endpoint.id !== 'string' || !Array.isArray(endpoint.models)) {
+    return 'Custom models require the endpoint configuration'
+  }
+  try {
+    const { protocol } = new URL(endpoint.baseUrl)
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return 'Endpoint base URL must use http or https'
+    }
+  } catch {
+    return `Invalid endpoint base URL: ${endpoint.baseUrl}`
+  }
+  return null
+}
+
+/**
+ * JSON error response in the shape clients parse with `ProviderError.fromJSON`
+ */
+function errorResponse(error: ErrorInfo) {
+  return NextResponse.json({ error }, { status: error.status || 500 })
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: CompletionRequest = await request.json()
-    
-    const {
-      provider,
-      modelId,
-      prompt,
-      systemMessage,
-      temperature = 0.7,
-      maxTokens = 4096,
-      topP = 1.0,
-      apiKey,
-      useOpenRouter = false
-    } = body
-
-    // Use environment variable if no API key provided (for dev)
-    const effectiveApiKey = apiKey || 
-      (useOpenRouter ? process.env.OPENROUTER_API_KEY : 
-       provider === 'openai' ? process.env.OPENAI_API_KEY :
-       provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : null)
-
-    if (!effectiveApiKey) {
-      return NextResponse.json(
-        { error: 'API key required', details: 'Please provide an API key or set up environment variables' },
-        { status: 400 }
-      )
+    const { provider: providerName, modelId, apiKey, endpoint, ...params } = body
+
+    if (!modelId || !params.prompt) {
+      return errorResponse({ code: 'invalid_request', message: 'Both modelId and prompt are required', status: 400 })
     }
 
-    const startTime = Date.now()
-    let response: any
-    let inputTokens = 0
-    let outputTokens = 0
-
-    if (useOpenRouter) {
-      // OpenRouter API call
-      const openRouterResponse = await axios.post(
-        'https://openrouter.ai/api/v1/chat/completions',
-        {
-          model: modelId,
-          messages: [
-            ...(systemMessage ? [{ role: 'system', content: systemMessage }] : []),
-            { role: 'user', content: prompt }
-          ],
-          temperature,
-          max_tokens: maxTokens,
-          top_p: topP,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${effectiveApiKey}`,
-            'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001',
-            'X-Title': 'PromptDotModel',
-            'Content-Type': 'application/json'
-          }
-        }
-      )
+    const invalidParam = validateSamplingParams(params) ||
+      validateMessages(params.messages) ||
+      validateImages(params.images, 'images') ||
+      validateTools(params.tools) ||
+      validateMessages(params.toolTurns, 'toolTurns') ||
+      validateResponseFormat(params.responseFormat, params.tools)
+    if (invalidParam) {
+      return errorResponse({ code: 'invalid_request', message: invalidParam, status: 400 })
+    }
 
-      const data = openRouterResponse.data
-      response = data.choices[0].message.content
-      inputTokens = data.usage?.prompt_tokens || 0
-      outputTokens = data.usage?.completion_tokens || 0
-
-    } else if (provider === 'openai') {
-      // OpenAI API call
-      const openai = new OpenAI({ apiKey: effectiveApiKey })
-      
-      const completion = await openai.chat.completions.create({
-        model: modelId,
-        messages: [
-          ...(systemMessage ? [{ role: 'system' as const, content: systemMessage }] : []),
-          { role: 'user' as const, content: prompt }
-        ],
-        temperature,
-        max_tokens: maxTokens,
-        top_p: topP,
-      })
+    if (providerName === 'custom') {
+      const invalidEndpoint = validateEndpoint(endpoint)
+      if (invalidEndpoint) {
+        return errorResponse({ code: 'invalid_request', message: invalidEndpoint, status: 400 })
+      }
+      if (!isEndpointAllowed(endpoint!.baseUrl)) {
+        return errorResponse({
+          code: 'invalid_request',
+          message: `${new URL(endpoint!.baseUrl).origin} is not an allowed custom endpoint. Add it to CUSTOM_ENDPOINT_ORIGINS on the server.`,
+          status: 403
+        })
+      }
+    }
 
-      response = completion.choices[0].message.content
-      inputTokens = completion.usage?.prompt_tokens || 0
-      outputTokens = completion.usage?.completion_tokens || 0
-
-    } else if (provider === 'anthropic') {
-      // Anthropic API call
-      const anthropicResponse = await axios.post(
-        'https://api.anthropic.com/v1/messages',
-        {
-          model: modelId,
-          max_tokens: maxTokens,
-          temperature,
-          system: systemMessage,
-          messages: [
-            { role: 'user', content: prompt }
-          ]
-        },
-        {
-          headers: {
-            'x-api-key': effectiveApiKey,
-            'anthropic-version': '2023-06-01',
-            'Content-Type': 'application/json'
-          }
-        }
-      )
+    // Ollama is only registered while its daemon is reachable
+    if (providerName === 'ollama' && !(await providerRegistry.discoverOllama())) {
+      return errorResponse({ code: 'network', message: 'Ollama is not reachable. Is `ollama serve` running?', status: 502, provider: 'ollama' })
+    }
 
-      const data = anthropicResponse.data
-      response = data.content[0].text
-      inputTokens = data.usage?.input_tokens || 0
-      outputTokens = data.usage?.output_tokens || 0
+    // Resolve OpenRouter models against the live catalog when it can be synced
+    if (providerName === 'openrouter') {
+      await providerRegistry.syncOpenRouterCatalog()
+    }
 
-    } else {
-      // Fallback for unsupported providers
-      return NextResponse.json(
-        { error: 'Unsupported provider', details: `Provider ${provider} is not yet implemented` },
-        { status: 400 }
-      )
+    // Custom endpoints are registered in the browser, so each request carries its own
+    const resolved = providerName === 'custom'
+      ? { provider: new CustomEndpointProvider(endpoint!) }
+      : providerRegistry.findModel(modelId, providerName)
+    if (!resolved) {
+      return errorResponse({ code: 'model_not_found', message: `No registered provider offers model ${modelId}`, status: 404 })
     }
 
-    const duration = Date.now() - startTime
-
-    return NextResponse.json({
-      content: response,
-      model: modelId,
-      inputTokens,
-      outputTokens,
-      duration,
-      cost: 0, // Cost calculation would need model-specific pricing
-      metadata: {
-        provider,
-        timestamp: new Date().toISOString(),
-        useOpenRouter
-      }
-    })
+    const { provider } = resolved
+    // Abort the upstream request if the client disconnects or cancels
+    const options = { apiKey, signal: request.signal }
 
-  } catch (error: any) {
-    console.error('Completion error:', error)
-    
-    // Handle specific API errors
-    if (error.response) {
-      return NextResponse.json(
-        { 
-          error: 'API Error', 
-          details: error.response.data?.error?.message || error.response.data?.message || 'Unknown API error',
-          status: error.response.status 
-        },
-        { status: error.response.status || 500 }
+    if (params.stream) {
+      // Wait for the first chunk so auth and request errors get a proper status code
+      // Responses to JSON formats are checked against their schema here, for every provider
+      const chunks = await primeStream(
+        withStructuredOutputChunks(provider.completeStream(modelId, params, options), params.responseFormat)
       )
+      return new Response(toNDJSONStream(chunks), {
+        headers: {
+          'Content-Type': NDJSON_CONTENT_TYPE,
+          'Cache-Control': 'no-cache',
+        },
+      })
     }
-    
-    return NextResponse.json(
-      { error: 'Internal Server Error', details: error.message },
-      { status: 500 }
-    )
+
+    const response = await provider.complete(modelId, params, options)
+    return NextResponse.json(withStructuredOutput(response, params.responseFormat))
+
+  } catch (error) {
+    console.error('Completion error:', error)
+    return errorResponse(toErrorInfo(error))
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { providerRegistry } from '@/lib/providers/provider-registry'
+import { ProviderName } from '@/lib/providers/types'
+
+// Availability depends on the environment, Ollama and OpenRouter at request time
+export const dynamic = 'force-dynamic'
+
+/**
+ * Every model the server can offer, with availability, capabilities and
+ * current pricing. `?keys=openai,anthropic` names the providers the browser
+ * has stored API keys for; the keys themselves are not sent.
+ */
+export async function GET(request: NextRequest) {
+  const storedKeys = (request.nextUrl.searchParams.get('keys') || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean) as ProviderName[]
+
+  return NextResponse.json({ models: await providerRegistry.listModels(storedKeys) })
+}
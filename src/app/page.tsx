@@ -2,224 +2,538 @@
 
 import * as React from "react"
 import { PromptInput } from "@/components/prompt-input"
+import { FollowUpInput } from "@/components/follow-up-input"
 import { ModelSelector } from "@/components/model-selector"
 import { ComparisonTable } from "@/components/comparison-table"
+import { TemplateVariablesPanel } from "@/components/template-variables-panel"
+import { ParametersPanel } from "@/components/parameters-panel"
+import { ToolsPanel } from "@/components/tools-panel"
 import { EvalConfig, LLMJudgeConfig } from "@/components/add-eval-dialog"
-import { providerRegistry, ModelMetadata, CompletionResponse } from "@/lib/providers"
+import { AvailableModel, ChatMessage, ImageInput, ModelMetadata, CompletionParams, CompletionResponse, CompletionChunk, ToolCall } from "@/lib/providers"
+import { calculateCost } from "@/lib/providers/pricing"
+import { isAbortError } from "@/lib/providers/streaming"
+import { toErrorInfo } from "@/lib/providers/errors"
+import { getImageIssue } from "@/lib/providers/messages"
+import { getToolIssue } from "@/lib/providers/tools"
+import { isJsonFormat, responseSchema, withStructuredOutput } from "@/lib/providers/structured-output"
+import { requestCompletion, streamCompletion } from "@/lib/completion-client"
+import { getCustomModels } from "@/lib/custom-endpoints"
+import { getStoredKeyProviders } from "@/lib/api-keys"
+import {
+  TestCase,
+  CellResult,
+  EvalResult,
+  EMPTY_CELL_RESULT,
+  cellKey,
+  createTestCase,
+  duplicateTestCase,
+  moveTestCase,
+  getTemplateIssues,
+  renderTestCase
+} from "@/lib/test-cases"
+import { renderTemplate, upgradeLegacyPlaceholders } from "@/lib/templates"
+import { RunSettings, DEFAULT_RUN_SETTINGS, resolveSamplingParams } from "@/lib/run-settings"
+import { ModelVariant, createVariant, duplicateVariant } from "@/lib/model-variants"
+import { ToolSettings, DEFAULT_TOOL_SETTINGS, combineResponses, runToolMock } from "@/lib/tool-mocks"
+import { analyzeSentiment, describeSentiment } from "@/lib/sentiment"
+import { runCustomEval } from "@/lib/custom-evals"
+import { runAssertion } from "@/lib/assertions"
+import { DEFAULT_JUDGE_OUTPUT_FORMAT, judgeFormatInstructions, parseJudgeOutput } from "@/lib/judge-scores"
 import { Switch } from "@/components/ui/switch"
-import { Plus, Zap } from "lucide-react"
+import { MessagesSquare, Zap } from "lucide-react"
 
-interface ModelResult {
-  model: ModelMetadata
-  response: CompletionResponse | null
-  error: string | null
-  isLoading: boolean
+interface GridCell {
+  testCase: TestCase
+  variant: ModelVariant
 }
 
-interface EvalResult {
-  evalId: string
-  modelId: string
-  result: string | null
-  isLoading: boolean
-  error: string | null
+/**
+ * Wait for `ms`, rejecting with an AbortError as soon as `signal` is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The run was stopped', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    if (signal?.aborted) onAbort()
+    else signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Placeholder arguments for the required parameters of a tool schema
+ */
+function sampleArguments(schema: Record<string, any>): Record<string, unknown> {
+  const properties: Record<string, any> = schema.properties || {}
+  const samples: Record<string, unknown> = { string: 'sample', number: 1, integer: 1, boolean: true, array: [], object: {} }
+  return Object.fromEntries((schema.required || []).map((name: string) => {
+    const property = properties[name] || {}
+    return [name, Array.isArray(property.enum) ? property.enum[0] : samples[property.type] ?? 'sample']
+  }))
+}
+
+/**
+ * Generate a dummy response, emitted word by word to mimic a streaming model.
+ * With tools, the first step calls the first tool; with a JSON response
+ * format, the response is sample JSON for its schema.
+ */
+async function* streamSampleCompletion(model: ModelMetadata, params: CompletionParams, signal?: AbortSignal): AsyncGenerator<CompletionChunk> {
+  const { prompt } = params
+  const startTime = Date.now()
+  const toolCalls: ToolCall[] | undefined = params.tools?.length && !params.toolTurns?.length
+    ? [{ id: 'call_sample', name: params.tools[0].name, arguments: JSON.stringify(sampleArguments(params.tools[0].parameters)) }]
+    : undefined
+  const content = toolCalls
+    ? ''
+    : isJsonFormat(params.responseFormat)
+    ? JSON.stringify(sampleArguments(responseSchema(params.responseFormat)), null, 2)
+    : `This is a sample response from ${model.name}. In a real implementation, this would be the actual response from the AI model. The response would be generated based on your prompt: "${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}"`
+  
+  // Simulate time to first token, then a per-model token rate
+  await delay(300 + Math.random() * 700, signal)
+  const tokenDelay = 20 + Math.random() * 60
+  
+  for (const word of content.match(/\S+\s*/g) || []) {
+    await delay(tokenDelay, signal)
+    yield { type: 'delta', content: word }
+  }
+  
+  // Estimate token counts (~4 characters per token) and price them like a real run
+  const usage = {
+    inputTokens: Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil((content.length + (toolCalls?.[0].arguments.length ?? 0)) / 4)
+  }
+  const costBreakdown = calculateCost(model, usage)
+  
+  yield {
+    type: 'done',
+    response: withStructuredOutput({
+      content,
+      toolCalls,
+      model: model.id,
+      ...usage,
+      duration: Date.now() - startTime,
+      cost: costBreakdown.total,
+      costBreakdown,
+      metadata: {}
+    }, params.responseFormat)
+  }
 }
 
 export default function Home() {
-  const [prompt, setPrompt] = React.useState("")
-  const [selectedModels, setSelectedModels] = React.useState<ModelMetadata[]>([])
-  const [modelResults, setModelResults] = React.useState<ModelResult[]>([])
-  const [isRunning, setIsRunning] = React.useState(false)
+  const [testCases, setTestCases] = React.useState<TestCase[]>(() => [createTestCase([])])
+  const [activeTestCaseId, setActiveTestCaseId] = React.useState<string | null>(null)
+  const [variants, setVariants] = React.useState<ModelVariant[]>([])
+  const [results, setResults] = React.useState<Record<string, CellResult>>({})
   const [useRealAPI, setUseRealAPI] = React.useState(false)
+  const [chatMode, setChatMode] = React.useState(false)
   const [evals, setEvals] = React.useState<EvalConfig[]>([])
   const [evalResults, setEvalResults] = React.useState<EvalResult[]>([])
   const [autoRunEvals, setAutoRunEvals] = React.useState(false)
+  const [runSettings, setRunSettings] = React.useState<RunSettings>(DEFAULT_RUN_SETTINGS)
+  const [toolSettings, setToolSettings] = React.useState<ToolSettings>(DEFAULT_TOOL_SETTINGS)
+  const toolDefinitions = React.useMemo(() => toolSettings.tools.map(tool => tool.definition), [toolSettings.tools])
   
-  // Get available models from the provider registry
-  const availableModels = React.useMemo(() => {
-    try {
-      return providerRegistry.getAllModels()
-    } catch (error) {
-      console.error("Error loading models:", error)
-      return []
-    }
+  // Evals run after a completion finishes, so they read results through a ref
+  // to see the latest responses rather than those captured at render time
+  const resultsRef = React.useRef(results)
+  React.useEffect(() => {
+    resultsRef.current = results
+  }, [results])
+  
+  // One controller per running cell, keyed like `results`
+  const controllersRef = React.useRef(new Map<string, AbortController>())
+  
+  const activeTestCase = testCases.find(t => t.id === activeTestCaseId) ?? testCases[0]
+  const isRunning = Object.values(results).some(result => result.isLoading)
+  
+  // Test cases whose templates cannot render, checked before anything runs.
+  // Columns with their own system message render it in place of the test case's.
+  const templateIssues = React.useMemo(() => {
+    const columnSystemMessages = Array.from(new Set(variants.map(v => v.systemMessage).filter(Boolean)))
+    const usesTestCaseSystemMessage = variants.length === 0 || variants.some(v => !v.systemMessage)
+    
+    return testCases
+      .filter(testCase => testCase.prompt.trim())
+      .map(testCase => {
+        const issues = [
+          ...(usesTestCaseSystemMessage ? getTemplateIssues(testCase, runSettings.systemMessage) : []),
+          ...columnSystemMessages.flatMap(systemMessage => getTemplateIssues({ ...testCase, systemMessage }))
+        ]
+        return { testCaseName: testCase.name, issues: Array.from(new Set(issues)) }
+      })
+      .filter(({ issues }) => issues.length > 0)
+  }, [testCases, variants, runSettings.systemMessage])
+  
+  const activeTemplates = React.useMemo(
+    () => [activeTestCase.prompt, activeTestCase.systemMessage || runSettings.systemMessage],
+    [activeTestCase.prompt, activeTestCase.systemMessage, runSettings.systemMessage]
+  )
+  
+  // Models of custom endpoints registered in Settings, read once mounted
+  // since they live in localStorage
+  const [customModels, setCustomModels] = React.useState<ModelMetadata[]>([])
+  React.useEffect(() => {
+    setCustomModels(getCustomModels())
+  }, [])
+  
+  // Models the server offers, with availability given the keys stored here
+  const [serverModels, setServerModels] = React.useState<AvailableModel[]>([])
+  React.useEffect(() => {
+    const keys = getStoredKeyProviders().join(',')
+    fetch(`/api/models?keys=${encodeURIComponent(keys)}`)
+      .then(response => response.json())
+      .then(data => setServerModels(data.models || []))
+      .catch(error => console.error("Error loading models:", error))
   }, [])
   
-  // Initialize with a couple of popular models
+  const availableModels: AvailableModel[] = React.useMemo(
+    () => [...serverModels, ...customModels],
+    [serverModels, customModels]
+  )
+  
+  // Initialize with a couple of popular models, preferring ones the server can run
   React.useEffect(() => {
-    if (availableModels.length > 0 && selectedModels.length === 0) {
-      const defaultModels = availableModels.filter(model => 
+    if (availableModels.length > 0 && variants.length === 0) {
+      const popularModels = availableModels.filter(model =>
         model.id.includes('gpt-4o') || model.id.includes('claude-3-5-sonnet')
-      ).slice(0, 2)
+      )
+      const runnableModels = popularModels.filter(model => model.availability?.available !== false)
+      const defaultModels = (runnableModels.length > 0 ? runnableModels : popularModels).slice(0, 2)
       
       if (defaultModels.length > 0) {
-        setSelectedModels(defaultModels)
-        setModelResults(defaultModels.map(model => ({
-          model,
-          response: null,
-          error: null,
-          isLoading: false
-        })))
+        setVariants(defaultModels.map(model => createVariant(model)))
       }
     }
-  }, [availableModels, selectedModels.length])
+  }, [availableModels, variants.length])
+  
+  const removeVariants = (removed: ModelVariant[]) => {
+    const removedIds = removed.map(v => v.id)
+    setVariants(prev => prev.filter(v => !removedIds.includes(v.id)))
+    // Drop the removed columns' cells; other columns keep their results
+    setResults(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => !testCases.some(t => removedIds.some(id => key === cellKey(t.id, id))))
+    ))
+    setEvalResults(prev => prev.filter(r => !removedIds.includes(r.variantId)))
+  }
   
+  /**
+   * The model selector adds a default column for a model, or removes every
+   * column of a model that is already shown
+   */
   const handleModelToggle = (model: ModelMetadata) => {
-    const isCurrentlySelected = selectedModels.some(m => m.id === model.id)
+    const modelVariants = variants.filter(v => v.model.id === model.id)
     
-    if (isCurrentlySelected) {
-      // Remove model
-      const newSelectedModels = selectedModels.filter(m => m.id !== model.id)
-      setSelectedModels(newSelectedModels)
-      setModelResults(newSelectedModels.map(m => ({
-        model: m,
-        response: null,
-        error: null,
-        isLoading: false
-      })))
+    if (modelVariants.length > 0) {
+      removeVariants(modelVariants)
     } else {
-      // Add model
-      const newSelectedModels = [...selectedModels, model]
-      setSelectedModels(newSelectedModels)
-      setModelResults(newSelectedModels.map(m => ({
-        model: m,
-        response: null,
-        error: null,
-        isLoading: false
-      })))
+      setVariants(prev => [...prev, createVariant(model)])
     }
   }
   
-  const handleRemoveModel = (modelId: string) => {
-    const newSelectedModels = selectedModels.filter(m => m.id !== modelId)
-    setSelectedModels(newSelectedModels)
-    setModelResults(newSelectedModels.map(m => ({
-      model: m,
-      response: null,
-      error: null,
-      isLoading: false
-    })))
+  const handleDuplicateVariant = (variantId: string) => {
+    setVariants(duplicateVariant(variants, variantId))
+  }
+  
+  const handleRemoveVariant = (variantId: string) => {
+    removeVariants(variants.filter(v => v.id === variantId))
+  }
+  
+  const handleVariantChange = (variant: ModelVariant) => {
+    setVariants(prev => prev.map(v => v.id === variant.id ? variant : v))
   }
   
-  const handleRun = async () => {
-    if (!prompt.trim() || selectedModels.length === 0) return
+  const updateCell = (testCaseId: string, variantId: string, update: (cell: CellResult) => Partial<CellResult>) => {
+    const key = cellKey(testCaseId, variantId)
+    setResults(prev => {
+      const cell = prev[key] ?? EMPTY_CELL_RESULT
+      return { ...prev, [key]: { ...cell, ...update(cell) } }
+    })
+  }
+  
+  /**
+   * Run a set of grid cells concurrently, streaming each into its cell. With
+   * a follow-up, each cell instead continues its own thread with that turn.
+   */
+  const runCells = async (cells: GridCell[], followUp?: string) => {
+    // A follow-up needs a finished response to continue from
+    const candidates = followUp
+      ? cells.filter(({ testCase, variant }) => resultsRef.current[cellKey(testCase.id, variant.id)]?.response)
+      : cells.filter(({ testCase }) => testCase.prompt.trim())
     
-    setIsRunning(true)
+    // Earlier turns of each continued thread, read before the cells reset
+    const histories = new Map<string, ChatMessage[]>()
+    if (followUp) {
+      for (const { testCase, variant } of candidates) {
+        const key = cellKey(testCase.id, variant.id)
+        const cell = resultsRef.current[key]
+        histories.set(key, [...(cell.thread ?? []), { role: 'assistant', content: cell.response?.content || '' }])
+      }
+    }
     
-    // Set all models to loading state
-    setModelResults(prevResults => 
-      prevResults.map(result => ({
-        ...result,
-        isLoading: true,
-        error: null,
-        response: null
-      }))
-    )
+    // Images of the first turn stay in the thread, so follow-ups resend them
+    const imagesOf = ({ testCase, variant }: GridCell): ImageInput[] => followUp
+      ? (histories.get(cellKey(testCase.id, variant.id)) ?? []).flatMap(message => message.images ?? [])
+      : testCase.images ?? []
+    
+    // Columns whose model cannot take the images are not sent; their cells explain why
+    const imageIssues = new Map<string, string>()
+    for (const cell of candidates) {
+      const issue = getImageIssue(cell.variant.model, imagesOf(cell).length)
+      if (issue) imageIssues.set(cellKey(cell.testCase.id, cell.variant.id), issue)
+    }
+    if (imageIssues.size > 0) {
+      setResults(prev => {
+        const next = { ...prev }
+        imageIssues.forEach((message, key) => {
+          next[key] = { response: null, error: { code: 'invalid_request', message }, isLoading: false }
+        })
+        return next
+      })
+    }
+    
+    const runnable = candidates.filter(({ testCase, variant }) => !imageIssues.has(cellKey(testCase.id, variant.id)))
+    if (runnable.length === 0) return
+    
+    // Set the cells to loading state and drop their stale eval results
+    setResults(prev => {
+      const next = { ...prev }
+      for (const { testCase, variant } of runnable) {
+        next[cellKey(testCase.id, variant.id)] = {
+          response: null,
+          streamedContent: '',
+          error: null,
+          isLoading: true,
+          aborted: false
+        }
+      }
+      return next
+    })
+    setEvalResults(prev => prev.filter(r =>
+      !runnable.some(({ testCase, variant }) => r.testCaseId === testCase.id && r.variantId === variant.id)
+    ))
     
-    // Run completions for each model
-    const completionPromises = selectedModels.map(async (model) => {
+    // Run completions for each cell, filling it in as its tokens arrive
+    const completionPromises = runnable.map(async ({ testCase, variant }) => {
+      const { model } = variant
+      const key = cellKey(testCase.id, variant.id)
+      
+      // Re-running a cell stops its previous run
+      controllersRef.current.get(key)?.abort()
+      const controller = new AbortController()
+      controllersRef.current.set(key, controller)
+      
       try {
-        let response: CompletionResponse
+        const { prompt, systemMessage } = renderTestCase(
+          { ...testCase, systemMessage: variant.systemMessage || testCase.systemMessage },
+          runSettings.systemMessage
+        )
+        const params = resolveSamplingParams(runSettings.defaults, variant.params, model)
+        const history = histories.get(key) ?? []
+        const userTurn = followUp ?? prompt
+        const images = followUp ? undefined : testCase.images?.length ? testCase.images : undefined
+        const userMessage: ChatMessage = { role: 'user', content: userTurn, images }
+        // Columns whose model cannot call tools run without them
+        const tools = toolDefinitions.length > 0 && !getToolIssue(model, toolDefinitions.length) ? toolDefinitions : undefined
+        let toolTurns: ChatMessage[] = []
+        let combined: CompletionResponse | null = null
         
-        if (useRealAPI) {
-          // Call real API
-          const provider = model.provider === 'openrouter' ? 'openrouter' : 
-                          model.id.includes('openrouter') ? 'openrouter' :
-                          model.id.includes('gpt') ? 'openai' : 
-                          model.id.includes('claude') ? 'anthropic' : model.provider
+        // One model call per step; calls answered by the tool mocks start another step
+        for (let step = 1; ; step++) {
+          updateCell(testCase.id, variant.id, () => ({ thread: [...history, userMessage, ...toolTurns], streamedContent: '' }))
           
-          const apiResponse = await fetch('/api/complete', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              provider,
-              modelId: model.id,
-              prompt,
-              temperature: 0.7,
-              maxTokens: 4096,
-              useOpenRouter: provider === 'openrouter' || model.id.includes('/')
-            }),
-          })
+          const request: CompletionParams = {
+            prompt: userTurn,
+            messages: history.length > 0 ? history : undefined,
+            images,
+            tools,
+            toolTurns: toolTurns.length > 0 ? toolTurns : undefined,
+            responseFormat: runSettings.responseFormat,
+            systemMessage,
+            ...params
+          }
+          const chunks = useRealAPI
+            ? streamCompletion(model, request, controller.signal)
+            : streamSampleCompletion(model, request, controller.signal)
           
-          if (!apiResponse.ok) {
-            const error = await apiResponse.json()
-            throw new Error(error.details || error.error || 'API request failed')
+          let response: CompletionResponse | null = null
+          for await (const chunk of chunks) {
+            if (controller.signal.aborted) break
+            if (chunk.type === 'delta') {
+              updateCell(testCase.id, variant.id, cell => ({
+                streamedContent: (cell.streamedContent || '') + chunk.content
+              }))
+            } else {
+              response = chunk.response
+            }
           }
+          if (controller.signal.aborted) throw new DOMException('The run was stopped', 'AbortError')
+          if (!response) throw new Error('The response ended before it was complete')
           
-          response = await apiResponse.json()
-        } else {
-          // Generate dummy response
-          await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000))
+          combined = combineResponses(combined, response)
+          if (!toolSettings.loop || !tools || !response.toolCalls?.length || step >= toolSettings.maxSteps) break
           
-          response = {
-            content: `This is a sample response from ${model.name}. In a real implementation, this would be the actual response from the AI model. The response would be generated based on your prompt: "${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}"`,
-            model: model.id,
-            inputTokens: Math.floor(prompt.length / 4),
-            outputTokens: Math.floor(Math.random() * 200) + 50,
-            duration: Math.floor(Math.random() * 3000) + 500,
-            cost: Math.random() * 0.001,
-            metadata: {}
-          }
+          const calls = response.toolCalls
+          const results = await Promise.all(calls.map(call => runToolMock(toolSettings.tools, call)))
+          toolTurns = [
+            ...toolTurns,
+            { role: 'assistant', content: response.content, toolCalls: calls },
+            ...calls.map((call, index): ChatMessage => ({ role: 'tool', content: results[index], name: call.name, toolCallId: call.id }))
+          ]
         }
         
-        return {
-          modelId: model.id,
-          response,
-          error: null
-        }
+        updateCell(testCase.id, variant.id, () => ({ response: combined, error: null, isLoading: false }))
       } catch (error) {
-        return {
-          modelId: model.id,
-          response: null,
-          error: error instanceof Error ? error.message : "Unknown error occurred"
+        // A newer run of the same cell owns it now
+        if (controllersRef.current.get(key) !== controller) return
+        
+        if (controller.signal.aborted || isAbortError(error)) {
+          updateCell(testCase.id, variant.id, () => ({ error: null, isLoading: false, aborted: true }))
+        } else {
+          updateCell(testCase.id, variant.id, () => ({
+            response: null,
+            error: toErrorInfo(error),
+            isLoading: false
+          }))
+        }
+      } finally {
+        if (controllersRef.current.get(key) === controller) {
+          controllersRef.current.delete(key)
         }
       }
     })
     
-    // Wait for all completions and update results as they complete
-    const results = await Promise.all(completionPromises)
-    
-    // Update model results with responses
-    setModelResults(prevResults =>
-      prevResults.map(result => {
-        const completionResult = results.find(r => r.modelId === result.model.id)
-        if (completionResult) {
-          return {
-            ...result,
-            response: completionResult.response,
-            error: completionResult.error,
-            isLoading: false
-          }
-        }
-        return result
-      })
-    )
+    await Promise.all(completionPromises)
     
     // Auto-run evaluations if enabled
     if (autoRunEvals && evals.length > 0) {
-      // Wait for state to update with the new model results
+      const testCaseIds = Array.from(new Set(runnable.map(({ testCase }) => testCase.id)))
+      // Wait for state to update with the new results
       setTimeout(async () => {
         for (const evalConfig of evals) {
-          await handleRunEval(evalConfig)
+          await handleRunEval(evalConfig, testCaseIds)
         }
       }, 100)
     }
-    
-    setIsRunning(false)
+  }
+  
+  // Whether any of these cells has a template that cannot render; the issues are listed by the grid
+  const hasTemplateIssues = (cells: GridCell[]) => cells.some(({ testCase, variant }) =>
+    testCase.prompt.trim() && getTemplateIssues(
+      { ...testCase, systemMessage: variant.systemMessage || testCase.systemMessage },
+      runSettings.systemMessage
+    ).length > 0
+  )
+  
+  const handleRun = () => {
+    if (templateIssues.length > 0) return
+    runCells(testCases.flatMap(testCase => variants.map(variant => ({ testCase, variant }))))
+  }
+  
+  const handleFollowUp = (message: string) => {
+    runCells(variants.map(variant => ({ testCase: activeTestCase, variant })), message)
+  }
+  
+  // Threads of the active test case that a follow-up would continue
+  const activeThreads = variants
+    .map(variant => results[cellKey(activeTestCase.id, variant.id)])
+    .filter(cell => cell?.response)
+  const activeTurnCount = Math.max(0, ...activeThreads.map(cell =>
+    (cell.thread ?? []).filter(message => message.role === 'user').length
+  ))
+  
+  const handleStop = () => {
+    controllersRef.current.forEach(controller => controller.abort())
+  }
+  
+  const handleStopVariant = (variantId: string) => {
+    for (const testCase of testCases) {
+      controllersRef.current.get(cellKey(testCase.id, variantId))?.abort()
+    }
+  }
+  
+  const handleRunTestCase = (testCaseId: string) => {
+    const testCase = testCases.find(t => t.id === testCaseId)
+    if (!testCase) return
+    const cells = variants.map(variant => ({ testCase, variant }))
+    if (hasTemplateIssues(cells)) return
+    runCells(cells)
+  }
+  
+  const handleRunVariant = (variantId: string) => {
+    const variant = variants.find(v => v.id === variantId)
+    if (!variant) return
+    const cells = testCases.map(testCase => ({ testCase, variant }))
+    if (hasTemplateIssues(cells)) return
+    runCells(cells)
+  }
+  
+  const handlePromptChange = (prompt: string) => {
+    setTestCases(prev => prev.map(t => t.id === activeTestCase.id ? { ...t, prompt } : t))
+  }
+  
+  const handleImagesChange = (images: ImageInput[]) => {
+    setTestCases(prev => prev.map(t => t.id === activeTestCase.id
+      ? { ...t, images: images.length > 0 ? images : undefined }
+      : t
+    ))
+  }
+  
+  const handleVariableChange = (name: string, value: string) => {
+    setTestCases(prev => prev.map(t => t.id === activeTestCase.id
+      ? { ...t, variables: { ...t.variables, [name]: value } }
+      : t
+    ))
+  }
+  
+  const clearTestCaseResults = (testCaseId: string) => {
+    setResults(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => !variants.some(v => key === cellKey(testCaseId, v.id)))
+    ))
+    setEvalResults(prev => prev.filter(r => r.testCaseId !== testCaseId))
   }
   
   const handleClear = () => {
-    setPrompt("")
-    setModelResults(prevResults =>
-      prevResults.map(result => ({
-        ...result,
-        response: null,
-        error: null,
-        isLoading: false
-      }))
-    )
-    setEvalResults([])
+    setTestCases(prev => prev.map(t => t.id === activeTestCase.id ? { ...t, prompt: "", images: undefined } : t))
+    clearTestCaseResults(activeTestCase.id)
+  }
+  
+  const handleAddTestCase = () => {
+    const testCase = createTestCase(testCases)
+    setTestCases([...testCases, testCase])
+    setActiveTestCaseId(testCase.id)
+  }
+  
+  const handleImportTestCases = (imported: TestCase[], replaceExisting: boolean) => {
+    if (replaceExisting) {
+      setTestCases(imported)
+      setResults({})
+      setEvalResults([])
+    } else {
+      // Empty test cases are placeholders, so imported rows take their place
+      setTestCases([...testCases.filter(t => t.prompt.trim()), ...imported])
+    }
+    setActiveTestCaseId(imported[0].id)
+  }
+  
+  const handleDuplicateTestCase = (testCaseId: string) => {
+    setTestCases(duplicateTestCase(testCases, testCaseId))
+  }
+  
+  const handleMoveTestCase = (testCaseId: string, direction: 'up' | 'down') => {
+    setTestCases(moveTestCase(testCases, testCaseId, direction))
+  }
+  
+  const handleDeleteTestCase = (testCaseId: string) => {
+    const remaining = testCases.filter(t => t.id !== testCaseId)
+    // Always keep at least one test case to edit
+    setTestCases(remaining.length > 0 ? remaining : [createTestCase([])])
+    clearTestCaseResults(testCaseId)
   }
   
   const handleAddEval = (config: EvalConfig) => {
@@ -234,97 +548,188 @@ export default function Home() {
     setEvalResults(prev => prev.filter(r => r.evalId !== config.name))
   }
   
-  const handleRunEval = async (evalConfig: EvalConfig) => {
-    if (evalConfig.type !== 'llm-judge') return
+  /**
+   * Have the judge model evaluate one response, returning what it wrote
+   */
+  const runJudge = async (judgeConfig: LLMJudgeConfig, judgeModel: ModelMetadata, testCase: TestCase, output: string): Promise<string> => {
+    const outputFormat = judgeConfig.outputFormat ?? DEFAULT_JUDGE_OUTPUT_FORMAT
+    
+    // The judge sees the test case variables plus the rendered prompt, response and expected output,
+    // and is told how to give its score so it can be read back
+    const judgePrompt = renderTemplate(upgradeLegacyPlaceholders(judgeConfig.prompt), {
+      ...testCase.variables,
+      input: renderTestCase(testCase, runSettings.systemMessage).prompt,
+      output,
+      expected: testCase.expectedOutput
+    }, { strict: true }) + '\n\n' + judgeFormatInstructions(outputFormat)
+    
+    let response: CompletionResponse
+    
+    if (useRealAPI) {
+      response = await requestCompletion(judgeModel, {
+        prompt: judgePrompt,
+        temperature: 0.3,
+        maxTokens: 500
+      })
+    } else {
+      // Generate dummy eval response
+      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000))
+      
+      const quality = [0.6, 0.7, 0.8, 0.85, 0.9][Math.floor(Math.random() * 5)]
+      const explanations = [
+        'The response demonstrates good understanding of the prompt with clear and relevant content.',
+        'Well-structured response that addresses the key points effectively.',
+        'The output shows competent handling of the task with minor areas for improvement.',
+      ]
+      const explanation = explanations[Math.floor(Math.random() * explanations.length)]
+      
+      // Answer in the configured format, as a judge following the instructions would
+      let content: string
+      switch (outputFormat.type) {
+        case 'scale': {
+          const { min, max } = outputFormat
+          content = `${explanation}\n\nScore: ${Math.round(min + quality * (max - min))}/${max}`
+          break
+        }
+        case 'pass-fail':
+          content = `${explanation}\n\nVerdict: ${quality >= 0.7 ? 'PASS' : 'FAIL'}`
+          break
+        case 'letter':
+          content = `${explanation}\n\nGrade: ${quality >= 0.85 ? 'A-' : quality >= 0.7 ? 'B+' : 'C'}`
+          break
+        case 'json':
+          content = JSON.stringify({
+            [outputFormat.scoreField]: Math.round(quality * 10),
+            ...(outputFormat.passField ? { [outputFormat.passField]: quality >= 0.7 } : {}),
+            ...(outputFormat.explanationField ? { [outputFormat.explanationField]: explanation } : {})
+          }, null, 2)
+          break
+      }
+      
+      const usage = { inputTokens: Math.ceil(judgePrompt.length / 4), outputTokens: 50 }
+      const costBreakdown = calculateCost(judgeModel, usage)
+      
+      response = {
+        content,
+        model: judgeModel.id,
+        ...usage,
+        duration: Math.floor(Math.random() * 1000) + 200,
+        cost: costBreakdown.total,
+        costBreakdown,
+        metadata: {}
+      }
+    }
+    
+    return response.content
+  }
+  
+  /**
+   * Run an evaluation over every cell with a response, optionally limited to some test cases
+   */
+  const handleRunEval = async (evalConfig: EvalConfig, testCaseIds?: string[]) => {
+    // How one cell is scored: sentiment and assertions locally, a custom
+    // script in a Web Worker, a judge with a model call
+    let evaluate: (testCase: TestCase, variant: ModelVariant, response: CompletionResponse) =>
+      Promise<Pick<EvalResult, 'result' | 'sentiment' | 'score' | 'pass' | 'scoreLabel' | 'parseError' | 'logs'>>
+    if (evalConfig.type === 'sentiment') {
+      evaluate = async (_testCase, _variant, response) => {
+        const sentiment = analyzeSentiment(response.content)
+        return { result: describeSentiment(sentiment), sentiment }
+      }
+    } else if (evalConfig.type === 'assertion') {
+      const { assertion } = evalConfig
+      evaluate = async (testCase, _variant, response) => {
+        const { pass, reason } = runAssertion(assertion, {
+          output: response.content,
+          expected: testCase.expectedOutput,
+          outputTokens: response.outputTokens
+        })
+        return { result: reason, pass }
+      }
+    } else if (evalConfig.type === 'custom') {
+      const { script } = evalConfig
+      evaluate = async (testCase, { model }, response) => {
+        const outcome = await runCustomEval({
+          script,
+          input: renderTestCase(testCase, runSettings.systemMessage).prompt,
+          output: response.content,
+          context: {
+            expected: testCase.expectedOutput,
+            variables: testCase.variables ?? {},
+            model: { id: model.id, name: model.name, provider: model.provider },
+            metadata: {
+              inputTokens: response.inputTokens,
+              outputTokens: response.outputTokens,
+              cost: response.cost,
+              duration: response.duration,
+              stopReason: response.metadata?.stopReason,
+              toolCalls: response.toolCalls,
+              structuredOutput: response.structuredOutput
+            }
+          }
+        })
+        if (!outcome.ok) throw new Error(outcome.error)
+        const { score, pass, explanation } = outcome.result
+        return { result: explanation || null, score, pass, logs: outcome.logs.length > 0 ? outcome.logs : undefined }
+      }
+    } else if (evalConfig.type === 'llm-judge' && evalConfig.model) {
+      const judgeConfig = evalConfig
+      const judgeModel = evalConfig.model
+      evaluate = async (testCase, _variant, response) => {
+        const output = await runJudge(judgeConfig, judgeModel, testCase, response.content)
+        const parsed = parseJudgeOutput(output, judgeConfig.outputFormat)
+        // An unreadable verdict keeps the judge's text so the cause can be seen
+        if (!parsed.ok) return { result: output, parseError: parsed.error }
+        const { score, pass, scoreLabel, explanation } = parsed.verdict
+        return { result: explanation, score, pass, scoreLabel }
+      }
+    } else {
+      return
+    }
+    
+    const targets = testCases
+      .filter(testCase => !testCaseIds || testCaseIds.includes(testCase.id))
+      .flatMap(testCase => variants.map(variant => ({
+        testCase,
+        variant,
+        response: resultsRef.current[cellKey(testCase.id, variant.id)]?.response ?? null
+      })))
     
-    const judgeConfig = evalConfig as LLMJudgeConfig
-    if (!judgeConfig.model) return
+    const isTarget = (r: EvalResult) =>
+      r.evalId === evalConfig.name && targets.some(t => t.testCase.id === r.testCaseId && t.variant.id === r.variantId)
     
-    // Set loading state for all models for this eval
+    // Set loading state for every targeted cell for this eval
     setEvalResults(prev => [
-      ...prev.filter(r => r.evalId !== evalConfig.name),
-      ...modelResults.map(result => ({
+      ...prev.filter(r => !isTarget(r)),
+      ...targets.map(({ testCase, variant, response }) => ({
         evalId: evalConfig.name,
-        modelId: result.model.id,
+        testCaseId: testCase.id,
+        variantId: variant.id,
         result: null,
-        isLoading: result.response !== null,
+        isLoading: response !== null,
         error: null
       }))
     ])
     
-    // Run eval for each model that has a response
-    const evalPromises = modelResults
-      .filter(result => result.response !== null)
-      .map(async (modelResult) => {
+    // Run eval for each cell that has a response
+    const evalPromises = targets
+      .flatMap(({ response, ...target }) => response ? [{ ...target, response }] : [])
+      .map(async ({ testCase, variant, response: modelResponse }): Promise<EvalResult> => {
         try {
-          // Prepare the judge prompt with placeholders replaced (replace all occurrences)
-          const judgePrompt = judgeConfig.prompt
-            .replace(/\{input\}/g, prompt)
-            .replace(/\{output\}/g, modelResult.response?.content || '')
-          
-          let response: CompletionResponse
-          
-          if (useRealAPI && judgeConfig.model) {
-            const provider = judgeConfig.model.provider === 'openrouter' ? 'openrouter' : 
-                            judgeConfig.model.id.includes('openrouter') ? 'openrouter' :
-                            judgeConfig.model.id.includes('gpt') ? 'openai' : 
-                            judgeConfig.model.id.includes('claude') ? 'anthropic' : judgeConfig.model.provider
-            
-            const apiResponse = await fetch('/api/complete', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                provider,
-                modelId: judgeConfig.model.id,
-                prompt: judgePrompt,
-                temperature: 0.3,
-                maxTokens: 500,
-                useOpenRouter: provider === 'openrouter' || judgeConfig.model.id.includes('/')
-              }),
-            })
-            
-            if (!apiResponse.ok) {
-              const error = await apiResponse.json()
-              throw new Error(error.details || error.error || 'API request failed')
-            }
-            
-            response = await apiResponse.json()
-          } else {
-            // Generate dummy eval response
-            await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000))
-            
-            const scores = [7, 8, 9, 6, 8.5, 7.5]
-            const score = scores[Math.floor(Math.random() * scores.length)]
-            const evaluations = [
-              `Score: ${score}/10\n\nThe response demonstrates good understanding of the prompt with clear and relevant content.`,
-              `Score: ${score}/10\n\nWell-structured response that addresses the key points effectively.`,
-              `Score: ${score}/10\n\nThe output shows competent handling of the task with minor areas for improvement.`,
-            ]
-            
-            response = {
-              content: evaluations[Math.floor(Math.random() * evaluations.length)],
-              model: judgeConfig.model?.id || 'unknown',
-              inputTokens: Math.floor(judgePrompt.length / 4),
-              outputTokens: 50,
-              duration: Math.floor(Math.random() * 1000) + 200,
-              cost: Math.random() * 0.0001,
-              metadata: {}
-            }
-          }
-          
+          const outcome = await evaluate(testCase, variant, modelResponse)
           return {
             evalId: evalConfig.name,
-            modelId: modelResult.model.id,
-            result: response.content,
+            testCaseId: testCase.id,
+            variantId: variant.id,
+            ...outcome,
             isLoading: false,
             error: null
           }
         } catch (error) {
           return {
             evalId: evalConfig.name,
-            modelId: modelResult.model.id,
+            testCaseId: testCase.id,
+            variantId: variant.id,
             result: null,
             isLoading: false,
             error: error instanceof Error ? error.message : 'Unknown error'
@@ -332,12 +737,12 @@ export default function Home() {
         }
       })
     
-    const results = await Promise.all(evalPromises)
+    const completed = await Promise.all(evalPromises)
     
     // Update eval results
     setEvalResults(prev => [
-      ...prev.filter(r => r.evalId !== evalConfig.name),
-      ...results
+      ...prev.filter(r => !isTarget(r)),
+      ...completed
     ])
   }
   
@@ -358,31 +763,86 @@ export default function Home() {
                 {useRealAPI ? 'Real API' : 'Sample Mode'}
               </span>
             </div>
+            <Switch
+              checked={chatMode}
+              onCheckedChange={setChatMode}
+              className="ml-3 data-[state=checked]:bg-emerald-600"
+            />
+            <div className="flex items-center gap-2">
+              <MessagesSquare className={`w-4 h-4 ${chatMode ? 'text-emerald-500' : 'text-zinc-500'}`} />
+              <span className={`text-xs font-mono ${chatMode ? 'text-emerald-500' : 'text-zinc-500'}`}>
+                Chat Mode
+              </span>
+            </div>
           </div>
           <div className="text-xs font-mono text-zinc-500">
-            {selectedModels.length} models selected
+            {testCases.length} test cases × {variants.length} columns
+          </div>
+        </div>
+
+        {/* Prompt Input and Parameters */}
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1">
+            <PromptInput
+              prompt={activeTestCase.prompt}
+              onPromptChange={handlePromptChange}
+              images={activeTestCase.images}
+              onImagesChange={handleImagesChange}
+              label={activeTestCase.name}
+              canRun={testCases.some(t => t.prompt.trim()) && templateIssues.length === 0}
+              onRun={handleRun}
+              onStop={handleStop}
+              onClear={handleClear}
+              isRunning={isRunning}
+              disabled={variants.length === 0}
+              autoRunEvals={autoRunEvals}
+              onAutoRunEvalsChange={setAutoRunEvals}
+              hasEvals={evals.length > 0}
+            />
+            {chatMode && (
+              <div className="mt-4">
+                <FollowUpInput
+                  onSend={handleFollowUp}
+                  threadCount={activeThreads.length}
+                  turnCount={activeTurnCount}
+                  isRunning={isRunning}
+                  disabled={variants.length === 0}
+                />
+              </div>
+            )}
+          </div>
+          <div className="lg:w-[380px]">
+            <ParametersPanel
+              settings={runSettings}
+              onSettingsChange={setRunSettings}
+              disabled={isRunning}
+            />
+            <div className="mt-4">
+              <ToolsPanel
+                settings={toolSettings}
+                onSettingsChange={setToolSettings}
+                disabled={isRunning}
+              />
+            </div>
           </div>
         </div>
 
-        {/* Prompt Input */}
-        <PromptInput
-          prompt={prompt}
-          onPromptChange={setPrompt}
-          onRun={handleRun}
-          onClear={handleClear}
-          isRunning={isRunning}
-          disabled={selectedModels.length === 0}
-          autoRunEvals={autoRunEvals}
-          onAutoRunEvalsChange={setAutoRunEvals}
-          hasEvals={evals.length > 0}
+        {/* Template Variables */}
+        <TemplateVariablesPanel
+          templates={activeTemplates}
+          values={activeTestCase.variables || {}}
+          onValueChange={handleVariableChange}
+          issues={templateIssues}
+          disabled={isRunning}
         />
 
         {/* Comparison Table */}
         <ComparisonTable
-          prompt={prompt}
-          modelResults={modelResults}
+          testCases={testCases}
+          activeTestCaseId={activeTestCase.id}
+          results={results}
           availableModels={availableModels}
-          selectedModels={selectedModels}
+          variants={variants}
           onModelToggle={handleModelToggle}
           disabled={isRunning}
           evals={evals}
@@ -390,6 +850,20 @@ export default function Home() {
           onAddEval={handleAddEval}
           onRunEvals={handleRunEval}
           onEditEval={handleEditEval}
+          onSelectTestCase={setActiveTestCaseId}
+          onAddTestCase={handleAddTestCase}
+          onImportTestCases={handleImportTestCases}
+          onDuplicateTestCase={handleDuplicateTestCase}
+          onMoveTestCase={handleMoveTestCase}
+          onDeleteTestCase={handleDeleteTestCase}
+          onRunTestCase={handleRunTestCase}
+          onRunVariant={handleRunVariant}
+          onStopVariant={handleStopVariant}
+          onDuplicateVariant={handleDuplicateVariant}
+          onRemoveVariant={handleRemoveVariant}
+          onVariantChange={handleVariantChange}
+          samplingDefaults={runSettings.defaults}
+          tools={toolDefinitions}
         />
       </div>
     </div>
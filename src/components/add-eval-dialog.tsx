@@ -6,16 +6,24 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
+import { AssertionFields } from "@/components/assertion-fields"
+import { JudgeFormatFields } from "@/components/judge-format-fields"
 import { ModelMetadata } from "@/lib/providers"
-import { Gavel, Sparkles, Gauge } from "lucide-react"
+import { DEFAULT_CUSTOM_EVAL_SCRIPT, EVAL_TIME_LIMIT_MS } from "@/lib/custom-evals"
+import { MAX_WORKER_RESULT_CHARS } from "@/lib/worker-sandbox"
+import { Assertion, createAssertion, validateAssertion } from "@/lib/assertions"
+import { DEFAULT_JUDGE_OUTPUT_FORMAT, JudgeOutputFormat, validateJudgeOutputFormat } from "@/lib/judge-scores"
+import { Gavel, Sparkles, Gauge, ListChecks } from "lucide-react"
 
-export type EvalType = 'llm-judge' | 'sentiment' | 'custom'
+export type EvalType = 'llm-judge' | 'sentiment' | 'custom' | 'assertion'
 
 export interface LLMJudgeConfig {
   type: 'llm-judge'
   name: string
   prompt: string
   model: ModelMetadata | null
+  /** How the judge gives its score; a 1-10 scale if unset */
+  outputFormat?: JudgeOutputFormat
 }
 
 export interface SentimentConfig {
@@ -29,7 +37,13 @@ export interface CustomEvalConfig {
   script: string
 }
 
-export type EvalConfig = LLMJudgeConfig | SentimentConfig | CustomEvalConfig
+export interface AssertionConfig {
+  type: 'assertion'
+  name: string
+  assertion: Assertion
+}
+
+export type EvalConfig = LLMJudgeConfig | SentimentConfig | CustomEvalConfig | AssertionConfig
 
 interface AddEvalDialogProps {
   open: boolean
@@ -50,7 +64,9 @@ export function AddEvalDialog({
   const [evalName, setEvalName] = React.useState('')
   const [judgePrompt, setJudgePrompt] = React.useState('')
   const [selectedModel, setSelectedModel] = React.useState<ModelMetadata | null>(null)
-  const [customScript, setCustomScript] = React.useState('')
+  const [judgeFormat, setJudgeFormat] = React.useState<JudgeOutputFormat>(DEFAULT_JUDGE_OUTPUT_FORMAT)
+  const [customScript, setCustomScript] = React.useState(DEFAULT_CUSTOM_EVAL_SCRIPT)
+  const [assertion, setAssertion] = React.useState<Assertion>(() => createAssertion('contains'))
   
   // Initialize form with existing config when editing
   React.useEffect(() => {
@@ -64,9 +80,12 @@ export function AddEvalDialog({
         const llmConfig = initialConfig as LLMJudgeConfig
         setJudgePrompt(llmConfig.prompt)
         setSelectedModel(llmConfig.model)
+        setJudgeFormat(llmConfig.outputFormat ?? DEFAULT_JUDGE_OUTPUT_FORMAT)
       } else if (initialConfig.type === 'custom') {
         const customConfig = initialConfig as CustomEvalConfig
         setCustomScript(customConfig.script)
+      } else if (initialConfig.type === 'assertion') {
+        setAssertion(initialConfig.assertion)
       }
     } else {
       // Reset form when not editing
@@ -74,7 +93,9 @@ export function AddEvalDialog({
       setEvalName('')
       setJudgePrompt('')
       setSelectedModel(null)
-      setCustomScript('')
+      setJudgeFormat(DEFAULT_JUDGE_OUTPUT_FORMAT)
+      setCustomScript(DEFAULT_CUSTOM_EVAL_SCRIPT)
+      setAssertion(createAssertion('contains'))
     }
   }, [initialConfig, open])
 
@@ -85,12 +106,13 @@ export function AddEvalDialog({
     
     switch (evalType) {
       case 'llm-judge':
-        if (!judgePrompt || !selectedModel) return
+        if (!judgePrompt || !selectedModel || validateJudgeOutputFormat(judgeFormat)) return
         config = {
           type: 'llm-judge',
           name: evalName,
           prompt: judgePrompt,
-          model: selectedModel
+          model: selectedModel,
+          outputFormat: judgeFormat
         }
         break
       case 'sentiment':
@@ -107,6 +129,14 @@ export function AddEvalDialog({
           script: customScript
         }
         break
+      case 'assertion':
+        if (validateAssertion(assertion)) return
+        config = {
+          type: 'assertion',
+          name: evalName,
+          assertion
+        }
+        break
     }
     
     onAddEval(config)
@@ -115,7 +145,9 @@ export function AddEvalDialog({
     setEvalName('')
     setJudgePrompt('')
     setSelectedModel(null)
-    setCustomScript('')
+    setJudgeFormat(DEFAULT_JUDGE_OUTPUT_FORMAT)
+    setCustomScript(DEFAULT_CUSTOM_EVAL_SCRIPT)
+    setAssertion(createAssertion('contains'))
     setEvalType('llm-judge')
     onOpenChange(false)
   }
@@ -125,15 +157,17 @@ export function AddEvalDialog({
     
     switch (evalType) {
       case 'llm-judge':
-        return !!judgePrompt && !!selectedModel
+        return !!judgePrompt && !!selectedModel && !validateJudgeOutputFormat(judgeFormat)
       case 'sentiment':
         return true
       case 'custom':
         return !!customScript
+      case 'assertion':
+        return !validateAssertion(assertion)
       default:
         return false
     }
-  }, [evalType, evalName, judgePrompt, selectedModel, customScript])
+  }, [evalType, evalName, judgePrompt, selectedModel, judgeFormat, customScript, assertion])
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -178,16 +212,22 @@ export function AddEvalDialog({
                     <span>LLM Judge</span>
                   </div>
                 </SelectItem>
-                <SelectItem value="sentiment" className="text-zinc-100 focus:bg-zinc-700" disabled>
+                <SelectItem value="sentiment" className="text-zinc-100 focus:bg-zinc-700">
                   <div className="flex items-center gap-2">
                     <Sparkles className="w-4 h-4" />
-                    <span>Sentiment Analysis (Coming Soon)</span>
+                    <span>Sentiment Analysis</span>
                   </div>
                 </SelectItem>
-                <SelectItem value="custom" className="text-zinc-100 focus:bg-zinc-700" disabled>
+                <SelectItem value="custom" className="text-zinc-100 focus:bg-zinc-700">
                   <div className="flex items-center gap-2">
                     <Gauge className="w-4 h-4" />
-                    <span>Custom Script (Coming Soon)</span>
+                    <span>Custom Script</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="assertion" className="text-zinc-100 focus:bg-zinc-700">
+                  <div className="flex items-center gap-2">
+                    <ListChecks className="w-4 h-4" />
+                    <span>Assertion</span>
                   </div>
                 </SelectItem>
               </SelectContent>
@@ -236,23 +276,34 @@ export function AddEvalDialog({
                   className="min-h-[150px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500"
                   placeholder="You are an expert evaluator. Analyze the following:
 
-User's Prompt: {input}
+User's Prompt: {{input}}
 
-Model's Response: {output}
+Model's Response: {{output}}
 
-Please provide:
-1. A score from 1-10
-2. A brief explanation of your evaluation"
+Please provide a brief explanation of your evaluation"
                   value={judgePrompt}
                   onChange={(e) => setJudgePrompt(e.target.value)}
                 />
                 <p className="text-xs text-zinc-500">
-                  Use {'{input}'} and {'{output}'} as placeholders for the prompt and model response
+                  Use {'{{input}}'}, {'{{output}}'} and {'{{expected}}'} for the prompt, model response and expected output; test case variables are also available
                 </p>
               </div>
+
+              <JudgeFormatFields format={judgeFormat} onChange={setJudgeFormat} />
             </>
           )}
 
+          {evalType === 'sentiment' && (
+            <p className="text-xs text-zinc-500">
+              Scores each response from -1 (negative) to +1 (positive) using a word list with negation handling.
+              Runs in this browser, with no model call or API key.
+            </p>
+          )}
+
+          {evalType === 'assertion' && (
+            <AssertionFields assertion={assertion} onChange={setAssertion} />
+          )}
+
           {evalType === 'custom' && (
             <div className="space-y-2">
               <Label htmlFor="custom-script" className="text-zinc-200">
@@ -260,15 +311,14 @@ Please provide:
               </Label>
               <Textarea
                 id="custom-script"
-                className="min-h-[150px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 font-mono text-sm"
-                placeholder="// JavaScript function that receives (input, output) and returns a result
-function evaluate(input, output) {
-  // Your evaluation logic here
-  return { score: 0, explanation: '' }
-}"
+                className="min-h-[220px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 font-mono text-sm"
                 value={customScript}
                 onChange={(e) => setCustomScript(e.target.value)}
               />
+              <p className="text-xs text-zinc-500">
+                Define evaluate(input, output, context) returning {'{ score, pass, explanation }'}; it may be async.
+                Runs in this browser in a Web Worker without network, storage or DOM access, and is stopped after {EVAL_TIME_LIMIT_MS / 1000}s; results over {MAX_WORKER_RESULT_CHARS / 1000}k characters are rejected.
+              </p>
             </div>
           )}
         </div>
@@ -0,0 +1,213 @@
+"use client"
+
+import * as React from "react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ASSERTION_KINDS, Assertion, AssertionKind, LengthUnit, createAssertion, validateAssertion } from "@/lib/assertions"
+
+interface AssertionFieldsProps {
+  assertion: Assertion
+  onChange: (assertion: Assertion) => void
+}
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md font-mono text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+const parseBound = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10)
+  return Number.isNaN(parsed) ? undefined : Math.max(0, parsed)
+}
+
+/**
+ * Kind and options of an assertion eval
+ */
+export function AssertionFields({ assertion, onChange }: AssertionFieldsProps) {
+  const issue = validateAssertion(assertion)
+
+  const checkbox = (id: string, label: string, checked: boolean, onCheckedChange: (checked: boolean) => void) => (
+    <div className="flex items-center gap-2">
+      <Checkbox
+        id={id}
+        checked={checked}
+        onCheckedChange={(value) => onCheckedChange(value === true)}
+        className="border-zinc-600 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+      />
+      <Label htmlFor={id} className="text-sm text-zinc-300 cursor-pointer select-none">
+        {label}
+      </Label>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="assertion-kind" className="text-zinc-200">
+          Assertion
+        </Label>
+        <Select value={assertion.kind} onValueChange={(kind) => onChange(createAssertion(kind as AssertionKind))}>
+          <SelectTrigger id="assertion-kind" className="bg-zinc-800 border-zinc-700 text-zinc-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-zinc-800 border-zinc-700">
+            {ASSERTION_KINDS.map(({ kind, label }) => (
+              <SelectItem key={kind} value={kind} className="text-zinc-100 focus:bg-zinc-700">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(assertion.kind === 'contains' || assertion.kind === 'not-contains' || assertion.kind === 'starts-with' || assertion.kind === 'equals') && (
+        <div className="space-y-2">
+          <Label htmlFor="assertion-value" className="text-zinc-200">
+            Value
+          </Label>
+          <input
+            id="assertion-value"
+            className={inputClassName}
+            placeholder="blank to use the test case's expected output"
+            value={assertion.value}
+            onChange={(e) => onChange({ ...assertion, value: e.target.value })}
+          />
+          {assertion.kind === 'equals'
+            ? checkbox('assertion-normalize', 'Ignore case, extra whitespace and trailing punctuation', assertion.normalize,
+                normalize => onChange({ ...assertion, normalize }))
+            : checkbox('assertion-case', 'Case sensitive', assertion.caseSensitive,
+                caseSensitive => onChange({ ...assertion, caseSensitive }))}
+        </div>
+      )}
+
+      {assertion.kind === 'regex' && (
+        <div className="grid grid-cols-[1fr_80px] gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="assertion-pattern" className="text-zinc-200">
+              Pattern
+            </Label>
+            <input
+              id="assertion-pattern"
+              className={inputClassName}
+              placeholder="\b(yes|no)\b"
+              value={assertion.pattern}
+              onChange={(e) => onChange({ ...assertion, pattern: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assertion-flags" className="text-zinc-200">
+              Flags
+            </Label>
+            <input
+              id="assertion-flags"
+              className={inputClassName}
+              placeholder="i"
+              value={assertion.flags}
+              onChange={(e) => onChange({ ...assertion, flags: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {assertion.kind === 'json-path' && (
+        <div className="grid grid-cols-[1fr_120px] gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="assertion-path" className="text-zinc-200">
+              Path
+            </Label>
+            <input
+              id="assertion-path"
+              className={inputClassName}
+              placeholder="$.items[0].name"
+              value={assertion.path}
+              onChange={(e) => onChange({ ...assertion, path: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assertion-operator" className="text-zinc-200">
+              Check
+            </Label>
+            <Select
+              value={assertion.operator}
+              onValueChange={(operator) => onChange({ ...assertion, operator: operator as 'exists' | 'equals' })}
+            >
+              <SelectTrigger id="assertion-operator" className="bg-zinc-800 border-zinc-700 text-zinc-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                <SelectItem value="exists" className="text-zinc-100 focus:bg-zinc-700">exists</SelectItem>
+                <SelectItem value="equals" className="text-zinc-100 focus:bg-zinc-700">equals</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {assertion.operator === 'equals' && (
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="assertion-json-value" className="text-zinc-200">
+                Value
+              </Label>
+              <input
+                id="assertion-json-value"
+                className={inputClassName}
+                placeholder='42, true, "Paris" or a JSON object'
+                value={assertion.value}
+                onChange={(e) => onChange({ ...assertion, value: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {assertion.kind === 'length' && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="assertion-unit" className="text-zinc-200">
+              Count
+            </Label>
+            <Select value={assertion.unit} onValueChange={(unit) => onChange({ ...assertion, unit: unit as LengthUnit })}>
+              <SelectTrigger id="assertion-unit" className="bg-zinc-800 border-zinc-700 text-zinc-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                <SelectItem value="words" className="text-zinc-100 focus:bg-zinc-700">words</SelectItem>
+                <SelectItem value="characters" className="text-zinc-100 focus:bg-zinc-700">characters</SelectItem>
+                <SelectItem value="tokens" className="text-zinc-100 focus:bg-zinc-700">tokens</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assertion-min" className="text-zinc-200">
+              Min
+            </Label>
+            <input
+              id="assertion-min"
+              type="number"
+              min={0}
+              className={inputClassName}
+              value={assertion.min ?? ''}
+              onChange={(e) => onChange({ ...assertion, min: parseBound(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assertion-max" className="text-zinc-200">
+              Max
+            </Label>
+            <input
+              id="assertion-max"
+              type="number"
+              min={0}
+              className={inputClassName}
+              value={assertion.max ?? ''}
+              onChange={(e) => onChange({ ...assertion, max: parseBound(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {assertion.kind === 'is-json' && (
+        <p className="text-xs text-zinc-500">
+          Passes when the response parses as JSON, also inside a Markdown code fence
+        </p>
+      )}
+
+      {issue && <p className="text-xs font-mono text-red-400">{issue}</p>}
+    </div>
+  )
+}
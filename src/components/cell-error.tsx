@@ -0,0 +1,58 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { ErrorCode, ErrorInfo } from "@/lib/providers"
+import { Settings } from "lucide-react"
+
+interface ErrorHint {
+  text: string
+  /** Show a link to the Settings page */
+  settings?: boolean
+}
+
+const ERROR_HINTS: Partial<Record<ErrorCode, ErrorHint>> = {
+  auth_failed: { text: "Check the API key for this provider.", settings: true },
+  rate_limited: { text: "Still rate limited after retrying. Wait a moment and run the cell again." },
+  quota_exceeded: { text: "The account is out of credits or quota. Check billing with the provider." },
+  context_length_exceeded: { text: "The prompt plus max_tokens exceeds the model's context window. Shorten the prompt or lower max_tokens." },
+  content_filtered: { text: "The provider's safety filter blocked this request." },
+  model_not_found: { text: "This key may not have access to the model.", settings: true },
+  timeout: { text: "The request timed out. Run the cell again or lower max_tokens." },
+  network: { text: "Could not reach the provider. Check your connection." },
+  invalid_request: { text: "The provider rejected the request parameters." },
+  overloaded: { text: "The provider is overloaded. Try again shortly." },
+  server_error: { text: "The provider had an internal error. Try again." }
+}
+
+interface CellErrorProps {
+  error: ErrorInfo
+}
+
+/**
+ * A failed cell: the error code, the provider's message and a hint on how to fix it
+ */
+export function CellError({ error }: CellErrorProps) {
+  const hint = ERROR_HINTS[error.code]
+
+  return (
+    <div className="space-y-1 font-mono text-sm break-words">
+      <div className="text-red-400">
+        <span className="text-xs uppercase tracking-wide">{error.code}</span>
+        {error.status !== undefined && <span className="text-xs text-red-400/60"> · {error.status}</span>}
+      </div>
+      <div className="text-red-300">{error.message}</div>
+      {hint && (
+        <div className="text-xs text-zinc-400">
+          {hint.text}
+          {hint.settings && (
+            <Link href="/settings" className="inline-flex items-center gap-1 ml-1 text-blue-400 hover:text-blue-300 underline">
+              <Settings className="w-3 h-3" />
+              Settings
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,22 @@
 "use client"
 
 import * as React from "react"
-import { ModelMetadata, CompletionResponse } from "@/lib/providers"
+import { ModelMetadata, RetryInfo, ToolCall, ToolDefinition } from "@/lib/providers"
 import { ModelSelector } from "@/components/model-selector"
 import { AddEvalDialog, EvalConfig } from "@/components/add-eval-dialog"
-import { Clock, DollarSign, Hash, Plus, Loader2, Settings } from "lucide-react"
+import { ImportDatasetDialog } from "@/components/import-dataset-dialog"
+import { VariantSettingsDialog } from "@/components/variant-settings-dialog"
+import { CellError } from "@/components/cell-error"
+import { ImageThumbnails } from "@/components/image-thumbnails"
+import { JsonTree } from "@/components/json-tree"
+import { getImageIssue } from "@/lib/providers/messages"
+import { getToolIssue, validateToolCall } from "@/lib/providers/tools"
+import { TestCase, CellResult, EvalResult, EMPTY_CELL_RESULT, cellKey } from "@/lib/test-cases"
+import { SamplingParams } from "@/lib/run-settings"
+import { SentimentLabel } from "@/lib/sentiment"
+import { describeAssertion } from "@/lib/assertions"
+import { ModelVariant, getVariantLabel, describeVariant, isCustomized } from "@/lib/model-variants"
+import { Clock, DollarSign, Hash, Plus, Loader2, Settings, Play, Square, Copy, Trash2, ChevronUp, ChevronDown, Upload, SlidersHorizontal, X, RotateCw, ImageOff, Wrench, CheckCircle2, AlertTriangle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 
 interface ResizableGridProps {
@@ -131,79 +143,118 @@ function ResizableGrid({ children, columnWidths, rowHeights, onColumnResize, onR
   )
 }
 
-interface ModelResult {
-  model: ModelMetadata
-  response: CompletionResponse | null
-  error: string | null
-  isLoading: boolean
-}
-
-interface EvalResult {
-  evalId: string
-  modelId: string
-  result: string | null
-  isLoading: boolean
-  error: string | null
+const SENTIMENT_BADGE_CLASSES: Record<SentimentLabel, string> = {
+  positive: 'border-emerald-700 bg-emerald-950 text-emerald-400',
+  neutral: 'border-zinc-700 bg-zinc-900 text-zinc-400',
+  negative: 'border-red-800 bg-red-950 text-red-400'
 }
 
 interface ComparisonTableProps {
-  prompt: string
-  modelResults: ModelResult[]
+  testCases: TestCase[]
+  activeTestCaseId: string | null
+  results: Record<string, CellResult>
   availableModels: ModelMetadata[]
-  selectedModels: ModelMetadata[]
+  /** Grid columns; the same model may appear in several variants */
+  variants: ModelVariant[]
   onModelToggle: (model: ModelMetadata) => void
   disabled: boolean
   evals?: EvalConfig[]
   evalResults?: EvalResult[]
   onAddEval?: (config: EvalConfig) => void
-  onRunEvals?: (evalConfig: EvalConfig) => void
+  onRunEvals?: (evalConfig: EvalConfig, testCaseIds?: string[]) => void
   onEditEval?: (config: EvalConfig) => void
+  onSelectTestCase?: (testCaseId: string) => void
+  onAddTestCase?: () => void
+  onImportTestCases?: (testCases: TestCase[], replaceExisting: boolean) => void
+  onDuplicateTestCase?: (testCaseId: string) => void
+  onMoveTestCase?: (testCaseId: string, direction: 'up' | 'down') => void
+  onDeleteTestCase?: (testCaseId: string) => void
+  onRunTestCase?: (testCaseId: string) => void
+  onRunVariant?: (variantId: string) => void
+  onStopVariant?: (variantId: string) => void
+  onDuplicateVariant?: (variantId: string) => void
+  onRemoveVariant?: (variantId: string) => void
+  onVariantChange?: (variant: ModelVariant) => void
+  samplingDefaults?: SamplingParams
+  /** Tools offered to the models, used to check the calls they make */
+  tools?: ToolDefinition[]
 }
 
 export function ComparisonTable({ 
-  prompt, 
-  modelResults, 
+  testCases,
+  activeTestCaseId,
+  results,
   availableModels, 
-  selectedModels, 
+  variants, 
   onModelToggle, 
   disabled,
   evals = [],
   evalResults = [],
   onAddEval,
   onRunEvals,
-  onEditEval
+  onEditEval,
+  onSelectTestCase,
+  onAddTestCase,
+  onImportTestCases,
+  onDuplicateTestCase,
+  onMoveTestCase,
+  onDeleteTestCase,
+  onRunTestCase,
+  onRunVariant,
+  onStopVariant,
+  onDuplicateVariant,
+  onRemoveVariant,
+  onVariantChange,
+  samplingDefaults = {},
+  tools = []
 }: ComparisonTableProps) {
   const [showAddEvalDialog, setShowAddEvalDialog] = React.useState(false)
   const [editingEval, setEditingEval] = React.useState<EvalConfig | null>(null)
+  const [showImportDialog, setShowImportDialog] = React.useState(false)
+  const [editingVariant, setEditingVariant] = React.useState<ModelVariant | null>(null)
+  
+  // The model selector toggles models; a model is selected while any of its variants is shown
+  const selectedModels = React.useMemo(
+    () => variants
+      .map(v => v.model)
+      .filter((model, index, models) => models.findIndex(m => m.id === model.id) === index),
+    [variants]
+  )
+  
+  // Each test case contributes a prompt, response and metrics row plus one row per eval
+  const getRowHeights = React.useCallback(() => {
+    const testCaseRows = ['80px', '200px', '100px', ...evals.map(() => '100px')]
+    return [
+      '80px', // Header
+      ...testCases.flatMap(() => testCaseRows),
+      '60px', // Add Test Case
+      '60px' // Add Evaluation
+    ]
+  }, [evals, testCases])
+  
   // State for column and row sizes
   const [columnWidths, setColumnWidths] = React.useState<string[]>(() => {
     const baseWidth = '320px' // Fixed starting width for model columns
     const testCaseWidth = '200px'
     const addModelWidth = '320px'
-    return [testCaseWidth, ...modelResults.map(() => baseWidth), addModelWidth]
+    return [testCaseWidth, ...variants.map(() => baseWidth), addModelWidth]
   })
   
-  // Calculate row heights dynamically based on evals
-  const [rowHeights, setRowHeights] = React.useState<string[]>(() => {
-    const baseRows = ['80px', '80px', '200px', '100px'] // Header, prompt, response, metrics
-    const evalRows = evals.map(() => '100px')
-    return [...baseRows, ...evalRows, '60px'] // Plus 'Add Eval' row
-  })
+  const [rowHeights, setRowHeights] = React.useState<string[]>(getRowHeights)
   
-  // Update row heights when evals change
+  // Update row heights when evals or test cases change
   React.useEffect(() => {
-    const baseRows = ['80px', '80px', '200px', '100px']
-    const evalRows = evals.map(() => '100px')
-    setRowHeights([...baseRows, ...evalRows, '60px'])
-  }, [evals])
+    setRowHeights(getRowHeights())
+  }, [getRowHeights])
   
-  // Update column widths when models change
+  // Update column widths when columns are added or removed
+  const columnCount = variants.length
   React.useEffect(() => {
     const baseWidth = '320px'
     const testCaseWidth = '200px'
     const addModelWidth = '320px'
-    setColumnWidths([testCaseWidth, ...modelResults.map(() => baseWidth), addModelWidth])
-  }, [modelResults])
+    setColumnWidths([testCaseWidth, ...Array.from({ length: columnCount }, () => baseWidth), addModelWidth])
+  }, [columnCount])
   
   const handleColumnResize = (index: number, width: string) => {
     setColumnWidths(prev => prev.map((w, i) => i === index ? width : w))
@@ -213,7 +264,10 @@ export function ComparisonTable({
     setRowHeights(prev => prev.map((h, i) => i === index ? height : h))
   }
   
-  if (modelResults.length === 0) {
+  const getCell = (testCaseId: string, variantId: string): CellResult =>
+    results[cellKey(testCaseId, variantId)] ?? EMPTY_CELL_RESULT
+  
+  if (variants.length === 0) {
     return (
       <div className="border border-zinc-800 bg-zinc-950 overflow-hidden">
         <div className="border-b border-zinc-800 bg-zinc-900 px-4 py-3">
@@ -236,6 +290,294 @@ export function ComparisonTable({
     )
   }
 
+  // Each call with its arguments and whether they match the tool's schema
+  const renderToolCalls = (calls: ToolCall[]) => (
+    <div className="space-y-1.5">
+      {calls.map(call => {
+        const issues = validateToolCall(tools, call)
+        return (
+          <div key={call.id} className="border border-zinc-800 bg-zinc-900/50 px-2 py-1.5 text-xs font-mono">
+            <div className="flex items-center gap-1.5">
+              <Wrench className="w-3 h-3 text-blue-400" />
+              <span className="text-blue-300">{call.name}</span>
+              {issues.length === 0 ? (
+                <CheckCircle2 className="w-3 h-3 text-emerald-500" aria-label="valid arguments" />
+              ) : (
+                <AlertTriangle className="w-3 h-3 text-yellow-500" aria-label="invalid arguments" />
+              )}
+            </div>
+            <div className="mt-1 text-zinc-400 break-words whitespace-pre-wrap">{call.arguments || '{}'}</div>
+            {issues.map(issue => (
+              <div key={issue} className="text-yellow-500">{issue}</div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const renderResponseCell = (cell: CellResult) => (
+    <>
+      {cell.thread && cell.thread.length > 1 && (
+        <div className="space-y-1.5 mb-3 pb-3 border-b border-zinc-800">
+          {cell.thread.map((message, index) => (
+            <div key={index} className="text-xs font-mono leading-relaxed break-words whitespace-pre-wrap">
+              <span className={message.role === 'user' ? 'text-emerald-500' : message.role === 'tool' ? 'text-blue-400' : 'text-zinc-500'}>
+                {message.role === 'tool' ? `tool(${message.name})` : message.role}:
+              </span>{' '}
+              <span className="text-zinc-400">{message.content}</span>
+              {message.images && message.images.length > 0 && (
+                <span className="text-zinc-600"> [{message.images.length} image{message.images.length !== 1 ? 's' : ''}]</span>
+              )}
+              {message.toolCalls?.map(call => {
+                const issues = validateToolCall(tools, call)
+                return (
+                  <div key={call.id} className="text-blue-300" title={issues.join('\n') || 'valid arguments'}>
+                    → {call.name}({call.arguments}){' '}
+                    {issues.length === 0
+                      ? <CheckCircle2 className="inline w-3 h-3 text-emerald-500" />
+                      : <AlertTriangle className="inline w-3 h-3 text-yellow-500" />}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {cell.isLoading && !cell.streamedContent && (
+        <div className="flex items-center gap-2 text-zinc-400 font-mono text-sm">
+          <div className="w-2 h-2 bg-yellow-500 animate-pulse"></div>
+          generating...
+        </div>
+      )}
+
+      {cell.isLoading && cell.streamedContent && (
+        <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+          {cell.streamedContent}
+          <span className="inline-block w-2 h-3 ml-0.5 bg-yellow-500 animate-pulse align-middle"></span>
+        </div>
+      )}
+
+      {cell.error && <CellError error={cell.error} />}
+
+      {cell.aborted && !cell.isLoading && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-zinc-500 font-mono text-xs">
+            <Square className="w-3 h-3" />
+            stopped
+          </div>
+          {cell.streamedContent && (
+            <div className="text-sm text-zinc-400 font-mono leading-relaxed break-words whitespace-pre-wrap">
+              {cell.streamedContent}
+            </div>
+          )}
+        </div>
+      )}
+
+      {cell.response && !cell.isLoading && (
+        <div className="space-y-3">
+          {cell.response.structuredOutput ? (
+            <div className="space-y-2">
+              <div className={`flex items-center gap-1 text-xs font-mono ${cell.response.structuredOutput.valid ? 'text-emerald-500' : 'text-yellow-500'}`}>
+                {cell.response.structuredOutput.valid
+                  ? <CheckCircle2 className="w-3 h-3" />
+                  : <AlertTriangle className="w-3 h-3" />}
+                {cell.response.structuredOutput.valid ? 'matches schema' : 'does not match schema'}
+              </div>
+              {cell.response.structuredOutput.value === undefined && (
+                <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+                  {cell.response.content}
+                </div>
+              )}
+              <JsonTree value={cell.response.structuredOutput.value} issues={cell.response.structuredOutput.issues} />
+            </div>
+          ) : cell.response.content && (
+            <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+              {cell.response.content}
+            </div>
+          )}
+          {cell.response.toolCalls && renderToolCalls(cell.response.toolCalls)}
+        </div>
+      )}
+
+      {!cell.response && !cell.isLoading && !cell.error && !cell.aborted && (
+        <div className="text-zinc-500 font-mono text-sm">
+          awaiting_input
+        </div>
+      )}
+    </>
+  )
+
+  const renderMetricsCell = (cell: CellResult) => {
+    const retry = cell.response?.metadata?.retry as RetryInfo | undefined
+
+    return (
+      <>
+        {cell.response && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs font-mono">
+              <Clock className="w-3 h-3 text-zinc-500" />
+              <span className="text-zinc-400">duration:</span>
+              <span className="text-zinc-200">{(cell.response.duration / 1000).toFixed(2)}s</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs font-mono">
+              <Hash className="w-3 h-3 text-zinc-500" />
+              <span className="text-zinc-400">tokens:</span>
+              <span className="text-zinc-200">{cell.response.inputTokens + cell.response.outputTokens}</span>
+              <span className="text-zinc-500">({cell.response.inputTokens}+{cell.response.outputTokens})</span>
+            </div>
+            <div className="flex items-center gap-2 text-xs font-mono">
+              <DollarSign className="w-3 h-3 text-zinc-500" />
+              <span className="text-zinc-400">cost:</span>
+              <span className="text-zinc-200">${cell.response.cost?.toFixed(6) || '0.000000'}</span>
+            </div>
+            {cell.response.costBreakdown && (
+              <div className="flex items-center gap-2 text-xs font-mono pl-5">
+                <span className="text-zinc-500">in</span>
+                <span className="text-zinc-300">
+                  ${(cell.response.costBreakdown.input + cell.response.costBreakdown.cachedInput).toFixed(6)}
+                </span>
+                <span className="text-zinc-500">out</span>
+                <span className="text-zinc-300">
+                  ${(cell.response.costBreakdown.output + cell.response.costBreakdown.reasoning).toFixed(6)}
+                </span>
+              </div>
+            )}
+            {retry && retry.attempts > 1 && (
+              <div className="flex items-center gap-2 text-xs font-mono">
+                <RotateCw className="w-3 h-3 text-amber-500" />
+                <span className="text-zinc-400">retries:</span>
+                <span className="text-amber-300">{retry.attempts - 1}</span>
+                <span className="text-zinc-500">({(retry.waitMs / 1000).toFixed(1)}s waited)</span>
+              </div>
+            )}
+          </div>
+        )}
+        {!cell.response && (cell.isLoading || cell.error || cell.aborted) && (
+          <div className="text-zinc-500 font-mono text-xs">
+            no_metrics
+          </div>
+        )}
+      </>
+    )
+  }
+
+  const renderEvalCell = (evalConfig: EvalConfig, testCase: TestCase, variant: ModelVariant) => {
+    const cell = getCell(testCase.id, variant.id)
+    const evalResult = evalResults.find(
+      r => r.evalId === evalConfig.name && r.testCaseId === testCase.id && r.variantId === variant.id
+    )
+    
+    return (
+      <>
+        {evalResult?.isLoading && (
+          <div className="flex items-center gap-2 text-zinc-400 font-mono text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            evaluating...
+          </div>
+        )}
+        
+        {evalResult?.error && (
+          <div className="text-red-400 font-mono text-sm break-words">
+            ERROR: {evalResult.error}
+          </div>
+        )}
+        
+        {evalResult?.sentiment && !evalResult.isLoading && (
+          <div className="space-y-1.5">
+            <span className={`inline-block px-1.5 py-0.5 border text-xs font-mono ${SENTIMENT_BADGE_CLASSES[evalResult.sentiment.label]}`}>
+              {evalResult.sentiment.label} {evalResult.sentiment.score > 0 ? '+' : ''}{evalResult.sentiment.score.toFixed(2)}
+            </span>
+            <div className="text-xs text-zinc-500 font-mono break-words">{evalResult.result}</div>
+          </div>
+        )}
+        
+        {evalResult?.scoreLabel && !evalResult.isLoading && (
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <span className="text-lg font-mono font-semibold text-zinc-100">{evalResult.scoreLabel}</span>
+              {evalResult.pass !== undefined && (
+                <span className={`px-1.5 py-0.5 border text-xs font-mono ${evalResult.pass ? 'border-emerald-700 bg-emerald-950 text-emerald-400' : 'border-red-800 bg-red-950 text-red-400'}`}>
+                  {evalResult.pass ? 'pass' : 'fail'}
+                </span>
+              )}
+            </div>
+            {evalResult.result && (
+              <details>
+                <summary className="text-xs text-zinc-500 font-mono cursor-pointer select-none hover:text-zinc-300">explanation</summary>
+                <div className="mt-1 text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+                  {evalResult.result}
+                </div>
+              </details>
+            )}
+          </div>
+        )}
+        
+        {evalResult?.parseError && !evalResult.isLoading && (
+          <div className="space-y-1.5">
+            <div className="flex items-start gap-1.5 text-xs text-yellow-400 font-mono break-words">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>could not read score: {evalResult.parseError}</span>
+            </div>
+            {evalResult.result && (
+              <details>
+                <summary className="text-xs text-zinc-500 font-mono cursor-pointer select-none hover:text-zinc-300">judge output</summary>
+                <div className="mt-1 text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+                  {evalResult.result}
+                </div>
+              </details>
+            )}
+          </div>
+        )}
+        
+        {evalResult && !evalResult.isLoading && !evalResult.scoreLabel && (evalResult.pass !== undefined || evalResult.score !== undefined) && (
+          <div className="flex items-center gap-1.5 mb-1.5 text-xs font-mono">
+            {evalResult.pass !== undefined && (
+              <span className={`px-1.5 py-0.5 border ${evalResult.pass ? 'border-emerald-700 bg-emerald-950 text-emerald-400' : 'border-red-800 bg-red-950 text-red-400'}`}>
+                {evalResult.pass ? 'pass' : 'fail'}
+              </span>
+            )}
+            {evalResult.score !== undefined && (
+              <span className="px-1.5 py-0.5 border border-zinc-700 bg-zinc-900 text-zinc-300">
+                score {evalResult.score}
+              </span>
+            )}
+          </div>
+        )}
+        
+        {evalResult?.result && !evalResult.sentiment && !evalResult.scoreLabel && !evalResult.parseError && !evalResult.isLoading && (
+          <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
+            {evalResult.result}
+          </div>
+        )}
+        
+        {evalResult?.logs && !evalResult.isLoading && (
+          <div className="mt-1.5 pt-1.5 border-t border-zinc-800 text-xs text-zinc-500 font-mono break-words whitespace-pre-wrap">
+            {evalResult.logs.join('\n')}
+          </div>
+        )}
+        
+        {!evalResult && cell.response && (
+          <Button
+            size="sm"
+            onClick={() => onRunEvals && onRunEvals(evalConfig, [testCase.id])}
+            className="bg-zinc-800 text-zinc-300 hover:bg-zinc-700 text-xs"
+            disabled={disabled}
+          >
+            Run Eval
+          </Button>
+        )}
+        
+        {!evalResult && !cell.response && (
+          <div className="text-zinc-500 font-mono text-sm">
+            awaiting_response
+          </div>
+        )}
+      </>
+    )
+  }
+
   return (
     <div className="border border-zinc-800 bg-zinc-950 overflow-hidden">
       <ResizableGrid 
@@ -245,21 +587,113 @@ export function ComparisonTable({
         onRowResize={handleRowResize}
       >
         {/* Header Row */}
-        <div className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide border-r border-zinc-800 flex items-center">
-          Test Case
+        <div className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide border-r border-zinc-800 flex items-center justify-between">
+          <span>Test Case</span>
+          <span className="text-zinc-500 normal-case font-normal">{testCases.length}</span>
         </div>
         
-        {modelResults.map((result) => (
+        {variants.map((variant) => (
           <div
-            key={`header-${result.model.id}`}
+            key={`header-${variant.id}`}
             className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide border-r border-zinc-800"
           >
-            <div className="space-y-1">
-              <div className="text-zinc-100 font-semibold">
-                {result.model.name}
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1 min-w-0">
+                <div className="text-zinc-100 font-semibold truncate" title={getVariantLabel(variant)}>
+                  {getVariantLabel(variant)}
+                </div>
+                <div className="text-zinc-500 lowercase">
+                  {variant.model.provider}
+                </div>
+                {isCustomized(variant) && (
+                  <div className="text-emerald-500 normal-case font-normal truncate">
+                    {describeVariant(variant)}
+                  </div>
+                )}
+                {testCases.some(t => getImageIssue(variant.model, t.images?.length ?? 0)) && (
+                  <div
+                    className="flex items-center gap-1 text-yellow-500 normal-case font-normal"
+                    title={variant.model.capabilities.vision
+                      ? `Test cases with more than ${variant.model.capabilities.maxImages} images are skipped in this column`
+                      : 'Test cases with images are skipped in this column'}
+                  >
+                    <ImageOff className="w-3 h-3" />
+                    {variant.model.capabilities.vision ? 'too many images' : 'no vision'}
+                  </div>
+                )}
+                {getToolIssue(variant.model, tools.length) && (
+                  <div
+                    className="flex items-center gap-1 text-yellow-500 normal-case font-normal"
+                    title="This model does not support tool calling, so it runs without the tools"
+                  >
+                    <Wrench className="w-3 h-3" />
+                    no tools
+                  </div>
+                )}
               </div>
-              <div className="text-zinc-500 lowercase">
-                {result.model.provider}
+              <div className="flex items-center shrink-0">
+                {onVariantChange && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setEditingVariant(variant)}
+                    disabled={disabled}
+                    className={`h-6 w-6 p-0 hover:bg-zinc-800 ${
+                      isCustomized(variant)
+                        ? 'text-emerald-400 hover:text-emerald-300'
+                        : 'text-zinc-500 hover:text-zinc-200'
+                    }`}
+                    title="Column settings"
+                  >
+                    <SlidersHorizontal className="w-3 h-3" />
+                  </Button>
+                )}
+                {onDuplicateVariant && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDuplicateVariant(variant.id)}
+                    disabled={disabled}
+                    className="h-6 w-6 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800"
+                    title="Add a variant of this model"
+                  >
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                )}
+                {onStopVariant && testCases.some(t => getCell(t.id, variant.id).isLoading) ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onStopVariant(variant.id)}
+                    className="h-6 w-6 p-0 text-red-400 hover:text-red-300 hover:bg-zinc-800"
+                    title="Stop this column"
+                  >
+                    <Square className="w-3 h-3" />
+                  </Button>
+                ) : onRunVariant && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRunVariant(variant.id)}
+                    disabled={disabled}
+                    className="h-6 w-6 p-0 text-zinc-500 hover:text-emerald-400 hover:bg-zinc-800"
+                    title="Run all test cases for this column"
+                  >
+                    <Play className="w-3 h-3" />
+                  </Button>
+                )}
+                {onRemoveVariant && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRemoveVariant(variant.id)}
+                    disabled={disabled}
+                    className="h-6 w-6 p-0 text-zinc-500 hover:text-red-400 hover:bg-zinc-800"
+                    title="Remove column"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -276,180 +710,222 @@ export function ComparisonTable({
           />
         </div>
         
-        {/* Prompt Row */}
-        <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 flex items-start hover:bg-zinc-900/50">
-          prompt_001
-        </div>
-        
-        {modelResults.map((result) => (
-          <div
-            key={`prompt-${result.model.id}`}
-            className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50"
-          >
-            <div className="text-xs font-mono text-zinc-500 mb-2 break-words">
-              {prompt.length > 100 ? `${prompt.slice(0, 100)}...` : prompt}
-            </div>
-          </div>
-        ))}
-        
-        <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
-        
-        {/* Response Row */}
-        <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 flex items-start hover:bg-zinc-900/50">
-          response
-        </div>
-        
-        {modelResults.map((result) => (
-          <div
-            key={`response-${result.model.id}`}
-            className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 overflow-auto"
-          >
-            {result.isLoading && (
-              <div className="flex items-center gap-2 text-zinc-400 font-mono text-sm">
-                <div className="w-2 h-2 bg-yellow-500 animate-pulse"></div>
-                generating...
-              </div>
-            )}
-
-            {result.error && (
-              <div className="text-red-400 font-mono text-sm break-words">
-                ERROR: {result.error}
-              </div>
-            )}
-
-            {result.response && !result.isLoading && (
-              <div className="space-y-3">
-                <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
-                  {result.response.content}
+        {testCases.map((testCase, testCaseIndex) => {
+          const isActive = testCase.id === activeTestCaseId
+          
+          return (
+            <React.Fragment key={testCase.id}>
+              {/* Prompt Row */}
+              <div
+                className={`px-4 py-3 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 cursor-pointer ${
+                  isActive ? 'bg-zinc-900 border-l-2 border-l-emerald-500' : ''
+                }`}
+                onClick={() => onSelectTestCase && onSelectTestCase(testCase.id)}
+              >
+                <div className="flex items-center justify-between gap-1">
+                  <span className="truncate">{testCase.name}</span>
+                  <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                    {onRunTestCase && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onRunTestCase(testCase.id)}
+                        disabled={disabled || !testCase.prompt.trim()}
+                        className="h-6 w-6 p-0 text-zinc-500 hover:text-emerald-400 hover:bg-zinc-800"
+                        title="Run this test case on all models"
+                      >
+                        <Play className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {onDuplicateTestCase && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onDuplicateTestCase(testCase.id)}
+                        className="h-6 w-6 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800"
+                        title="Duplicate test case"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {onDeleteTestCase && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onDeleteTestCase(testCase.id)}
+                        disabled={disabled}
+                        className="h-6 w-6 p-0 text-zinc-500 hover:text-red-400 hover:bg-zinc-800"
+                        title="Delete test case"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
+                {onMoveTestCase && (
+                  <div className="flex items-center gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onMoveTestCase(testCase.id, 'up')}
+                      disabled={testCaseIndex === 0}
+                      className="h-5 w-5 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onMoveTestCase(testCase.id, 'down')}
+                      disabled={testCaseIndex === testCases.length - 1}
+                      className="h-5 w-5 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
               </div>
-            )}
-
-            {!result.response && !result.isLoading && !result.error && (
-              <div className="text-zinc-500 font-mono text-sm">
-                awaiting_input
-              </div>
-            )}
-          </div>
-        ))}
-        
-        <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50 flex items-center justify-center text-zinc-500 text-sm">
-          awaiting_input
-        </div>
-        
-        {/* Metrics Row */}
-        <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 flex items-start hover:bg-zinc-900/50">
-          metrics
-        </div>
-        
-        {modelResults.map((result) => (
-          <div
-            key={`metrics-${result.model.id}`}
-            className="px-4 py-4 border-r border-zinc-800 hover:bg-zinc-900/50"
-          >
-            {result.response && (
-              <div className="space-y-2">
-                <div className="flex items-center gap-2 text-xs font-mono">
-                  <Clock className="w-3 h-3 text-zinc-500" />
-                  <span className="text-zinc-400">duration:</span>
-                  <span className="text-zinc-200">{(result.response.duration / 1000).toFixed(2)}s</span>
-                </div>
-                <div className="flex items-center gap-2 text-xs font-mono">
-                  <Hash className="w-3 h-3 text-zinc-500" />
-                  <span className="text-zinc-400">tokens:</span>
-                  <span className="text-zinc-200">{result.response.inputTokens + result.response.outputTokens}</span>
-                  <span className="text-zinc-500">({result.response.inputTokens}+{result.response.outputTokens})</span>
-                </div>
-                <div className="flex items-center gap-2 text-xs font-mono">
-                  <DollarSign className="w-3 h-3 text-zinc-500" />
-                  <span className="text-zinc-400">cost:</span>
-                  <span className="text-zinc-200">${result.response.cost?.toFixed(6) || '0.000000'}</span>
+              
+              {variants.map((variant) => (
+                <div
+                  key={`prompt-${testCase.id}-${variant.id}`}
+                  className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 cursor-pointer"
+                  onClick={() => onSelectTestCase && onSelectTestCase(testCase.id)}
+                >
+                  <div className="text-xs font-mono text-zinc-500 mb-2 break-words">
+                    {testCase.prompt
+                      ? (testCase.prompt.length > 100 ? `${testCase.prompt.slice(0, 100)}...` : testCase.prompt)
+                      : 'empty_prompt'}
+                  </div>
+                  {testCase.images && testCase.images.length > 0 && (
+                    <>
+                      <ImageThumbnails images={testCase.images} size={32} />
+                      {getImageIssue(variant.model, testCase.images.length) && (
+                        <div className="mt-1 text-xs font-mono text-yellow-500">
+                          {getImageIssue(variant.model, testCase.images.length)}
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
+              ))}
+              
+              <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
+              
+              {/* Response Row */}
+              <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 flex items-start hover:bg-zinc-900/50">
+                response
               </div>
-            )}
-            {!result.response && (result.isLoading || result.error) && (
-              <div className="text-zinc-500 font-mono text-xs">
-                no_metrics
-              </div>
-            )}
-          </div>
-        ))}
-        
-        <div className="px-4 py-4 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50 flex items-center justify-center text-zinc-500 text-sm">
-          no_metrics
-        </div>
-        
-        {/* Evaluation Rows */}
-        {evals.map((evalConfig, evalIndex) => (
-          <React.Fragment key={evalConfig.name}>
-            <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50">
-              <div className="flex items-center justify-between">
-                <span>{evalConfig.name}</span>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => setEditingEval(evalConfig)}
-                  className="h-6 w-6 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-700"
-                  title="Edit evaluation"
+              
+              {variants.map((variant) => (
+                <div
+                  key={`response-${testCase.id}-${variant.id}`}
+                  className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 overflow-auto"
                 >
-                  <Settings className="w-3 h-3" />
-                </Button>
+                  {renderResponseCell(getCell(testCase.id, variant.id))}
+                </div>
+              ))}
+              
+              <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50 flex items-center justify-center text-zinc-500 text-sm">
+                awaiting_input
+              </div>
+              
+              {/* Metrics Row */}
+              <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 flex items-start hover:bg-zinc-900/50">
+                metrics
               </div>
-            </div>
-            
-            {modelResults.map((result) => {
-              const evalResult = evalResults.find(
-                r => r.evalId === evalConfig.name && r.modelId === result.model.id
-              )
               
-              return (
+              {variants.map((variant) => (
                 <div
-                  key={`eval-${evalConfig.name}-${result.model.id}`}
-                  className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 overflow-auto"
+                  key={`metrics-${testCase.id}-${variant.id}`}
+                  className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50"
                 >
-                  {evalResult?.isLoading && (
-                    <div className="flex items-center gap-2 text-zinc-400 font-mono text-sm">
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      evaluating...
-                    </div>
-                  )}
-                  
-                  {evalResult?.error && (
-                    <div className="text-red-400 font-mono text-sm break-words">
-                      ERROR: {evalResult.error}
-                    </div>
-                  )}
-                  
-                  {evalResult?.result && !evalResult.isLoading && (
-                    <div className="text-sm text-zinc-200 font-mono leading-relaxed break-words whitespace-pre-wrap">
-                      {evalResult.result}
+                  {renderMetricsCell(getCell(testCase.id, variant.id))}
+                </div>
+              ))}
+              
+              <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50 flex items-center justify-center text-zinc-500 text-sm">
+                no_metrics
+              </div>
+              
+              {/* Evaluation Rows */}
+              {evals.map((evalConfig) => (
+                <React.Fragment key={`${testCase.id}-${evalConfig.name}`}>
+                  <div className="px-4 py-4 text-sm font-mono text-zinc-300 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <div>{evalConfig.name}</div>
+                        {evalConfig.type === 'assertion' && (
+                          <div className="text-xs text-zinc-500 truncate" title={describeAssertion(evalConfig.assertion)}>
+                            {describeAssertion(evalConfig.assertion)}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingEval(evalConfig)}
+                        className="h-6 w-6 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-700"
+                        title="Edit evaluation"
+                      >
+                        <Settings className="w-3 h-3" />
+                      </Button>
                     </div>
-                  )}
+                  </div>
                   
-                  {!evalResult && result.response && (
-                    <Button
-                      size="sm"
-                      onClick={() => onRunEvals && onRunEvals(evalConfig)}
-                      className="bg-zinc-800 text-zinc-300 hover:bg-zinc-700 text-xs"
-                      disabled={disabled}
+                  {variants.map((variant) => (
+                    <div
+                      key={`eval-${evalConfig.name}-${testCase.id}-${variant.id}`}
+                      className="px-4 py-4 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50 overflow-auto"
                     >
-                      Run Eval
-                    </Button>
-                  )}
-                  
-                  {!evalResult && !result.response && (
-                    <div className="text-zinc-500 font-mono text-sm">
-                      awaiting_response
+                      {renderEvalCell(evalConfig, testCase, variant)}
                     </div>
-                  )}
-                </div>
-              )
-            })}
-            
-            <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
-          </React.Fragment>
+                  ))}
+                  
+                  <div className="px-4 py-4 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
+                </React.Fragment>
+              ))}
+            </React.Fragment>
+          )
+        })}
+        
+        {/* Add Test Case Row */}
+        <div className="px-4 py-3 text-sm font-mono text-zinc-400 border-r border-zinc-800 border-b border-zinc-800 flex items-center hover:bg-zinc-900/50">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onAddTestCase}
+            disabled={!onAddTestCase}
+            className="text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 flex-1 justify-start"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Test Case
+          </Button>
+          {onImportTestCases && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setShowImportDialog(true)}
+              disabled={disabled}
+              className="h-8 w-8 p-0 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+              title="Import test cases from CSV or JSONL"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        
+        {variants.map((variant) => (
+          <div
+            key={`add-test-case-${variant.id}`}
+            className="px-4 py-3 border-r border-zinc-800 border-b border-zinc-800 hover:bg-zinc-900/50"
+          ></div>
         ))}
         
+        <div className="px-4 py-3 border-b border-zinc-800 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
+        
         {/* Add Evaluation Row */}
         <div className="px-4 py-3 text-sm font-mono text-zinc-400 border-r border-zinc-800 flex items-center hover:bg-zinc-900/50">
           <Button
@@ -463,9 +939,9 @@ export function ComparisonTable({
           </Button>
         </div>
         
-        {modelResults.map(() => (
+        {variants.map((variant) => (
           <div
-            key={Math.random()}
+            key={`add-eval-${variant.id}`}
             className="px-4 py-3 border-r border-zinc-800 hover:bg-zinc-900/50"
           ></div>
         ))}
@@ -473,6 +949,24 @@ export function ComparisonTable({
         <div className="px-4 py-3 border-2 border-dashed border-zinc-600 hover:bg-zinc-900/50"></div>
       </ResizableGrid>
       
+      {onImportTestCases && (
+        <ImportDatasetDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImport={onImportTestCases}
+          existingTestCases={testCases.filter(t => t.prompt.trim())}
+        />
+      )}
+      
+      {onVariantChange && (
+        <VariantSettingsDialog
+          variant={editingVariant}
+          onOpenChange={(open) => !open && setEditingVariant(null)}
+          defaults={samplingDefaults}
+          onSave={onVariantChange}
+        />
+      )}
+      
       {onAddEval && (
         <AddEvalDialog
           open={showAddEvalDialog || !!editingEval}
@@ -497,4 +991,4 @@ export function ComparisonTable({
       )}
     </div>
   )
-}
\ No newline at end of file
+}
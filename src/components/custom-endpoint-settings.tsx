@@ -0,0 +1,318 @@
+"use client"
+
+import * as React from "react"
+import { Plus, Save, Server, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { CustomEndpoint, CustomEndpointModel } from "@/lib/providers"
+import {
+  getCustomEndpoints,
+  saveCustomEndpoint,
+  removeCustomEndpoint,
+  createCustomEndpoint,
+  validateCustomEndpoint,
+  parseHeaders,
+  formatHeaders
+} from "@/lib/custom-endpoints"
+import { cn } from "@/lib/utils"
+
+const EMPTY_MODEL: CustomEndpointModel = {
+  id: '',
+  maxTokens: 8192,
+  inputCostPer1kTokens: 0,
+  outputCostPer1kTokens: 0,
+  supportsStreaming: true
+}
+
+const parseNumber = (value: string): number => {
+  const parsed = parseFloat(value)
+  return Number.isNaN(parsed) ? 0 : parsed
+}
+
+interface EndpointCardProps {
+  endpoint: CustomEndpoint
+  /** Whether the endpoint has been saved before */
+  isSaved: boolean
+  onSave: (endpoint: CustomEndpoint) => void
+  onRemove: (id: string) => void
+}
+
+function EndpointCard({ endpoint, isSaved, onSave, onRemove }: EndpointCardProps) {
+  const [draft, setDraft] = React.useState(endpoint)
+  const [headersText, setHeadersText] = React.useState(formatHeaders(endpoint.headers))
+  const [issues, setIssues] = React.useState<string[]>([])
+  const [hasUnsavedChanges, setHasUnsavedChanges] = React.useState(!isSaved)
+
+  const update = (fields: Partial<CustomEndpoint>) => {
+    setDraft(prev => ({ ...prev, ...fields }))
+    setHasUnsavedChanges(true)
+  }
+
+  const updateModel = (index: number, fields: Partial<CustomEndpointModel>) => {
+    update({ models: draft.models.map((model, i) => i === index ? { ...model, ...fields } : model) })
+  }
+
+  const handleSave = () => {
+    const endpointToSave: CustomEndpoint = {
+      ...draft,
+      name: draft.name.trim(),
+      baseUrl: draft.baseUrl.trim(),
+      apiKey: draft.apiKey?.trim() || undefined,
+      headers: parseHeaders(headersText),
+      models: draft.models.map(model => ({ ...model, id: model.id.trim(), name: model.name?.trim() || undefined }))
+    }
+
+    const problems = validateCustomEndpoint(endpointToSave)
+    setIssues(problems)
+    if (problems.length > 0) return
+
+    onSave(endpointToSave)
+    setDraft(endpointToSave)
+    setHasUnsavedChanges(false)
+  }
+
+  return (
+    <Card className="transition-all duration-200 hover:shadow-md">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-lg">{draft.name || 'New Endpoint'}</CardTitle>
+            <CardDescription>{draft.baseUrl || 'OpenAI-compatible /chat/completions server'}</CardDescription>
+          </div>
+          <Server className="h-5 w-5 text-gray-400" />
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${draft.id}-name`}>Name</Label>
+            <Input
+              id={`${draft.id}-name`}
+              value={draft.name}
+              placeholder="vLLM (gpu-box)"
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${draft.id}-base-url`}>Base URL</Label>
+            <Input
+              id={`${draft.id}-base-url`}
+              value={draft.baseUrl}
+              placeholder="http://localhost:8000/v1"
+              onChange={(e) => update({ baseUrl: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${draft.id}-api-key`}>API Key (optional)</Label>
+            <Input
+              id={`${draft.id}-api-key`}
+              type="password"
+              value={draft.apiKey || ''}
+              placeholder="sent as a bearer token"
+              onChange={(e) => update({ apiKey: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${draft.id}-headers`}>Headers (one per line)</Label>
+            <Textarea
+              id={`${draft.id}-headers`}
+              rows={2}
+              value={headersText}
+              placeholder="X-Team: evals"
+              className="min-h-[40px] font-mono text-xs"
+              onChange={(e) => {
+                setHeadersText(e.target.value)
+                setHasUnsavedChanges(true)
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[2fr_2fr_1fr_1fr_1fr_auto_auto] gap-2 text-xs font-medium text-gray-600">
+            <span>Model ID</span>
+            <span>Display name</span>
+            <span>Context</span>
+            <span>$ in / 1k</span>
+            <span>$ out / 1k</span>
+            <span>Stream</span>
+            <span />
+          </div>
+          {draft.models.map((model, index) => (
+            <div key={index} className="grid grid-cols-[2fr_2fr_1fr_1fr_1fr_auto_auto] gap-2 items-center">
+              <Input
+                value={model.id}
+                placeholder="llama3.1:8b"
+                className="h-8 font-mono text-xs"
+                onChange={(e) => updateModel(index, { id: e.target.value })}
+              />
+              <Input
+                value={model.name || ''}
+                placeholder={model.id || 'Llama 3.1 8B'}
+                className="h-8 text-xs"
+                onChange={(e) => updateModel(index, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                min={1}
+                value={model.maxTokens}
+                className="h-8 text-xs"
+                onChange={(e) => updateModel(index, { maxTokens: parseInt(e.target.value, 10) || 0 })}
+              />
+              <Input
+                type="number"
+                min={0}
+                step={0.0001}
+                value={model.inputCostPer1kTokens}
+                className="h-8 text-xs"
+                onChange={(e) => updateModel(index, { inputCostPer1kTokens: parseNumber(e.target.value) })}
+              />
+              <Input
+                type="number"
+                min={0}
+                step={0.0001}
+                value={model.outputCostPer1kTokens}
+                className="h-8 text-xs"
+                onChange={(e) => updateModel(index, { outputCostPer1kTokens: parseNumber(e.target.value) })}
+              />
+              <div className="flex justify-center">
+                <Checkbox
+                  checked={model.supportsStreaming}
+                  onCheckedChange={(checked) => updateModel(index, { supportsStreaming: checked === true })}
+                  aria-label="Supports streaming"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-gray-500 hover:text-red-600"
+                onClick={() => update({ models: draft.models.filter((_, i) => i !== index) })}
+                aria-label="Remove model"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            onClick={() => update({ models: [...draft.models, { ...EMPTY_MODEL }] })}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add Model
+          </Button>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-end space-x-2 pt-2 border-t">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(draft.id)}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </Button>
+          <Button
+            variant={hasUnsavedChanges ? "default" : "secondary"}
+            size="sm"
+            onClick={handleSave}
+            className={cn(hasUnsavedChanges && "bg-blue-600 hover:bg-blue-700")}
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Save
+            {hasUnsavedChanges && (
+              <span className="ml-1 text-xs">•</span>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Register OpenAI-compatible servers (vLLM, llama.cpp, Ollama, ...) and the
+ * models they serve. Saved models appear in the model selector.
+ */
+export function CustomEndpointSettings() {
+  const [endpoints, setEndpoints] = React.useState<CustomEndpoint[]>([])
+  const [savedIds, setSavedIds] = React.useState<string[]>([])
+
+  React.useEffect(() => {
+    const stored = getCustomEndpoints()
+    setEndpoints(stored)
+    setSavedIds(stored.map(e => e.id))
+  }, [])
+
+  const handleAdd = () => {
+    setEndpoints(prev => [...prev, { ...createCustomEndpoint(), models: [{ ...EMPTY_MODEL }] }])
+  }
+
+  const handleSave = (endpoint: CustomEndpoint) => {
+    try {
+      saveCustomEndpoint(endpoint)
+      setSavedIds(prev => prev.includes(endpoint.id) ? prev : [...prev, endpoint.id])
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save custom endpoint')
+    }
+  }
+
+  const handleRemove = (id: string) => {
+    try {
+      removeCustomEndpoint(id)
+      setEndpoints(prev => prev.filter(e => e.id !== id))
+      setSavedIds(prev => prev.filter(savedId => savedId !== id))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to remove custom endpoint')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Custom Endpoints</h2>
+          <p className="text-gray-600 text-sm">
+            Compare local and self-hosted models served by any OpenAI-compatible API, such as vLLM,
+            the llama.cpp server or Ollama. Requests are sent from this app&apos;s server, so use URLs it can reach;
+            the server only accepts origins listed in its <code>CUSTOM_ENDPOINT_ORIGINS</code> environment variable.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Endpoint
+        </Button>
+      </div>
+
+      <div className="grid gap-6">
+        {endpoints.map(endpoint => (
+          <EndpointCard
+            key={endpoint.id}
+            endpoint={endpoint}
+            isSaved={savedIds.includes(endpoint.id)}
+            onSave={handleSave}
+            onRemove={handleRemove}
+          />
+        ))}
+        {endpoints.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6 border border-dashed rounded-lg">
+            No custom endpoints yet
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { CornerDownRight } from "lucide-react"
+
+interface FollowUpInputProps {
+  /** Sends the follow-up turn to every column of the active test case */
+  onSend: (message: string) => void
+  /** Number of columns with a response to continue */
+  threadCount: number
+  /** Number of user turns so far in the longest thread */
+  turnCount: number
+  isRunning: boolean
+  disabled?: boolean
+}
+
+/**
+ * Next user turn of a chat-mode comparison. Each column continues its own
+ * conversation, so models see their own earlier replies.
+ */
+export function FollowUpInput({
+  onSend,
+  threadCount,
+  turnCount,
+  isRunning,
+  disabled = false
+}: FollowUpInputProps) {
+  const [message, setMessage] = React.useState('')
+  const canSend = !!message.trim() && threadCount > 0 && !isRunning && !disabled
+
+  const handleSend = () => {
+    if (!canSend) return
+    onSend(message.trim())
+    setMessage('')
+  }
+
+  return (
+    <div className="border border-zinc-800 bg-zinc-950 p-4">
+      <div className="mb-2 flex justify-between text-xs font-mono text-zinc-400">
+        <span>follow-up · turn {turnCount + 1}</span>
+        <span className="text-zinc-500">
+          {threadCount > 0 ? `continues ${threadCount} thread${threadCount !== 1 ? 's' : ''}` : 'run the prompt first'}
+        </span>
+      </div>
+      <div className="flex gap-3">
+        <Textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              handleSend()
+            }
+          }}
+          placeholder="send a follow-up to every column (ctrl+enter)"
+          className="min-h-[60px] resize-none bg-zinc-900 border-zinc-800 font-mono text-sm text-zinc-100 placeholder:text-zinc-500 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+          disabled={disabled || isRunning}
+        />
+        <Button
+          onClick={handleSend}
+          disabled={!canSend}
+          size="sm"
+          className="bg-emerald-600 hover:bg-emerald-700 text-white font-mono text-xs h-8 px-3"
+        >
+          <CornerDownRight className="w-3 h-3 mr-1" />
+          send
+        </Button>
+      </div>
+    </div>
+  )
+}
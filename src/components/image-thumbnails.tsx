@@ -0,0 +1,50 @@
+"use client"
+
+import * as React from "react"
+import Image from "next/image"
+import { ImageInput } from "@/lib/providers"
+import { toDataUrl } from "@/lib/providers/messages"
+import { X } from "lucide-react"
+
+interface ImageThumbnailsProps {
+  images: ImageInput[]
+  /** Shows a remove button on each thumbnail */
+  onRemove?: (index: number) => void
+  /** Thumbnail edge length in pixels */
+  size?: number
+  className?: string
+}
+
+export function ImageThumbnails({ images, onRemove, size = 48, className = "" }: ImageThumbnailsProps) {
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {images.map((image, index) => (
+        <div
+          key={index}
+          className="relative border border-zinc-700 bg-zinc-900 overflow-hidden"
+          style={{ width: size, height: size }}
+          title={image.name || `image ${index + 1}`}
+        >
+          <Image
+            src={toDataUrl(image)}
+            alt={image.name || `image ${index + 1}`}
+            width={size}
+            height={size}
+            unoptimized
+            className="h-full w-full object-cover"
+          />
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              className="absolute top-0 right-0 bg-zinc-950/80 p-0.5 text-zinc-400 hover:text-red-400"
+              title="Remove image"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+"use client"
+
+import * as React from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { TestCase } from "@/lib/test-cases"
+import {
+  ParsedDataset,
+  ColumnMapping,
+  detectDatasetFormat,
+  parseDataset,
+  guessColumnMapping,
+  validateDataset,
+  toTestCases
+} from "@/lib/datasets"
+import { FileUp, AlertTriangle } from "lucide-react"
+
+const NO_COLUMN = '__none__'
+const PREVIEW_ROWS = 5
+
+interface ImportDatasetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (testCases: TestCase[], replaceExisting: boolean) => void
+  existingTestCases: TestCase[]
+}
+
+export function ImportDatasetDialog({
+  open,
+  onOpenChange,
+  onImport,
+  existingTestCases
+}: ImportDatasetDialogProps) {
+  const [fileName, setFileName] = React.useState('')
+  const [dataset, setDataset] = React.useState<ParsedDataset | null>(null)
+  const [parseError, setParseError] = React.useState<string | null>(null)
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null)
+  const [replaceExisting, setReplaceExisting] = React.useState(false)
+
+  // Reset the form each time the dialog opens
+  React.useEffect(() => {
+    if (!open) return
+    setFileName('')
+    setDataset(null)
+    setParseError(null)
+    setMapping(null)
+    setReplaceExisting(false)
+  }, [open])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      const content = await file.text()
+      const parsed = parseDataset(content, detectDatasetFormat(file.name, content))
+      setDataset(parsed)
+      setMapping(guessColumnMapping(parsed.columns))
+      setParseError(null)
+    } catch (error) {
+      setDataset(null)
+      setMapping(null)
+      setParseError(error instanceof Error ? error.message : 'Could not read file')
+    }
+  }
+
+  const issues = React.useMemo(
+    () => dataset && mapping ? validateDataset(dataset, mapping) : [],
+    [dataset, mapping]
+  )
+
+  const preview = React.useMemo(
+    () => dataset && mapping && !issues.some(issue => issue.row === 0)
+      ? toTestCases({ ...dataset, rows: dataset.rows.slice(0, PREVIEW_ROWS) }, mapping, replaceExisting ? [] : existingTestCases)
+      : [],
+    [dataset, mapping, issues, replaceExisting, existingTestCases]
+  )
+
+  const importableCount = dataset ? dataset.rows.length - issues.filter(issue => issue.row > 0).length : 0
+  const hasMappingError = issues.some(issue => issue.row === 0)
+
+  const setField = (field: 'prompt' | 'name' | 'systemMessage' | 'expectedOutput', column: string) => {
+    if (!mapping) return
+    const value = column === NO_COLUMN ? undefined : column
+    setMapping({
+      ...mapping,
+      [field]: field === 'prompt' ? value ?? '' : value,
+      // A column feeds either a field or a variable, not both
+      variables: mapping.variables.filter(v => v !== value)
+    })
+  }
+
+  const toggleVariable = (column: string, checked: boolean) => {
+    if (!mapping) return
+    setMapping({
+      ...mapping,
+      variables: checked
+        ? [...mapping.variables, column]
+        : mapping.variables.filter(v => v !== column)
+    })
+  }
+
+  const handleSubmit = () => {
+    if (!dataset || !mapping || hasMappingError) return
+
+    const testCases = toTestCases(dataset, mapping, replaceExisting ? [] : existingTestCases)
+    if (testCases.length === 0) return
+
+    onImport(testCases, replaceExisting)
+    onOpenChange(false)
+  }
+
+  const fieldSelect = (
+    id: string,
+    label: string,
+    field: 'prompt' | 'name' | 'systemMessage' | 'expectedOutput',
+    optional: boolean
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-zinc-200">
+        {label}
+      </Label>
+      <Select
+        value={mapping?.[field] || NO_COLUMN}
+        onValueChange={(column) => setField(field, column)}
+      >
+        <SelectTrigger id={id} className="bg-zinc-800 border-zinc-700 text-zinc-100">
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent className="bg-zinc-800 border-zinc-700 max-h-[300px]">
+          {optional && (
+            <SelectItem value={NO_COLUMN} className="text-zinc-400 focus:bg-zinc-700">
+              none
+            </SelectItem>
+          )}
+          {dataset?.columns.map((column) => (
+            <SelectItem key={column} value={column} className="text-zinc-100 focus:bg-zinc-700">
+              {column}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const unmappedColumns = dataset && mapping
+    ? dataset.columns.filter(column =>
+        ![mapping.prompt, mapping.name, mapping.systemMessage, mapping.expectedOutput].includes(column)
+      )
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] bg-zinc-900 border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">
+            Import Test Cases
+          </DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Load a CSV or JSONL dataset and map its columns onto test cases
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="dataset-file" className="text-zinc-200">
+              Dataset File
+            </Label>
+            <label
+              htmlFor="dataset-file"
+              className="flex items-center gap-2 w-full px-3 py-2 bg-zinc-800 border border-dashed border-zinc-700 rounded-md text-sm font-mono text-zinc-400 cursor-pointer hover:border-zinc-500"
+            >
+              <FileUp className="w-4 h-4" />
+              {fileName || 'choose a .csv or .jsonl file'}
+              {dataset && (
+                <span className="ml-auto text-zinc-500">
+                  {dataset.rows.length} rows · {dataset.format}
+                </span>
+              )}
+            </label>
+            <input
+              id="dataset-file"
+              type="file"
+              accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            {parseError && (
+              <p className="text-xs font-mono text-red-400">{parseError}</p>
+            )}
+          </div>
+
+          {dataset && mapping && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {fieldSelect('map-prompt', 'Prompt', 'prompt', false)}
+                {fieldSelect('map-name', 'Test Case Name', 'name', true)}
+                {fieldSelect('map-system', 'System Message', 'systemMessage', true)}
+                {fieldSelect('map-expected', 'Expected Output', 'expectedOutput', true)}
+              </div>
+
+              {unmappedColumns.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-zinc-200">Template Variables</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {unmappedColumns.map((column) => (
+                      <div key={column} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`var-${column}`}
+                          checked={mapping.variables.includes(column)}
+                          onCheckedChange={(checked) => toggleVariable(column, checked === true)}
+                          className="h-3.5 w-3.5 border-zinc-600 data-[state=checked]:bg-emerald-600 data-[state=checked]:border-emerald-600"
+                        />
+                        <Label htmlFor={`var-${column}`} className="text-xs font-mono text-zinc-400 cursor-pointer select-none">
+                          {column}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {issues.length > 0 && (
+                <div className="space-y-1 border border-yellow-900 bg-yellow-950/30 px-3 py-2">
+                  <div className="flex items-center gap-2 text-xs font-mono text-yellow-400">
+                    <AlertTriangle className="w-3 h-3" />
+                    {hasMappingError
+                      ? 'fix the column mapping to continue'
+                      : `${issues.length} rows will be skipped`}
+                  </div>
+                  {issues.slice(0, PREVIEW_ROWS).map((issue, index) => (
+                    <p key={index} className="text-xs font-mono text-zinc-400">
+                      {issue.row > 0 ? `row ${issue.row}: ` : ''}{issue.message}
+                    </p>
+                  ))}
+                  {issues.length > PREVIEW_ROWS && (
+                    <p className="text-xs font-mono text-zinc-500">
+                      ...and {issues.length - PREVIEW_ROWS} more
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {preview.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-zinc-200">Preview</Label>
+                  <div className="border border-zinc-800 overflow-x-auto">
+                    <table className="w-full text-xs font-mono">
+                      <thead className="bg-zinc-800 text-zinc-400">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-normal">name</th>
+                          <th className="px-2 py-1 text-left font-normal">prompt</th>
+                          {mapping.systemMessage && <th className="px-2 py-1 text-left font-normal">system</th>}
+                          {mapping.expectedOutput && <th className="px-2 py-1 text-left font-normal">expected</th>}
+                          {mapping.variables.length > 0 && <th className="px-2 py-1 text-left font-normal">variables</th>}
+                        </tr>
+                      </thead>
+                      <tbody className="text-zinc-300">
+                        {preview.map((testCase) => (
+                          <tr key={testCase.id} className="border-t border-zinc-800 align-top">
+                            <td className="px-2 py-1 whitespace-nowrap">{testCase.name}</td>
+                            <td className="px-2 py-1 max-w-[240px] truncate">{testCase.prompt}</td>
+                            {mapping.systemMessage && (
+                              <td className="px-2 py-1 max-w-[160px] truncate">{testCase.systemMessage}</td>
+                            )}
+                            {mapping.expectedOutput && (
+                              <td className="px-2 py-1 max-w-[160px] truncate">{testCase.expectedOutput}</td>
+                            )}
+                            {mapping.variables.length > 0 && (
+                              <td className="px-2 py-1 max-w-[160px] truncate">
+                                {Object.entries(testCase.variables || {}).map(([key, value]) => `${key}=${value}`).join(', ')}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="replace-existing"
+                  checked={replaceExisting}
+                  onCheckedChange={(checked) => setReplaceExisting(checked === true)}
+                  className="h-3.5 w-3.5 border-zinc-600 data-[state=checked]:bg-emerald-600 data-[state=checked]:border-emerald-600"
+                />
+                <Label htmlFor="replace-existing" className="text-xs font-mono text-zinc-400 cursor-pointer select-none">
+                  replace existing test cases
+                </Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            className="bg-zinc-800 text-zinc-100 hover:bg-zinc-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!dataset || hasMappingError || importableCount === 0}
+            className="bg-blue-600 text-white hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-400"
+          >
+            Import {importableCount > 0 ? `${importableCount} Test Cases` : 'Test Cases'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
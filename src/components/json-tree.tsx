@@ -0,0 +1,137 @@
+"use client"
+
+import * as React from "react"
+import { SchemaIssue } from "@/lib/providers"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface JsonTreeProps {
+  value: unknown
+  /** Schema issues; the values they point at are highlighted and all are listed below the tree */
+  issues?: SchemaIssue[]
+  /** Objects and arrays nested deeper than this start collapsed */
+  expandDepth?: number
+  className?: string
+}
+
+interface JsonNodeProps {
+  name?: string
+  value: unknown
+  /** Path in the validator's notation, e.g. `$.items[0].name` */
+  path: string
+  depth: number
+  expandDepth: number
+  issuesByPath: Map<string, string[]>
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <span className="text-emerald-300">{JSON.stringify(value)}</span>
+  }
+  if (typeof value === 'number') {
+    return <span className="text-blue-300">{value}</span>
+  }
+  return <span className="text-yellow-300">{String(value)}</span>
+}
+
+function JsonNode({ name, value, path, depth, expandDepth, issuesByPath }: JsonNodeProps) {
+  const [expanded, setExpanded] = React.useState(depth < expandDepth)
+  const issues = issuesByPath.get(path)
+  const isArray = Array.isArray(value)
+  const entries: [string, unknown][] | null = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item])
+    : typeof value === 'object' && value !== null
+    ? Object.entries(value)
+    : null
+
+  const label = (
+    <>
+      {name !== undefined && <span className="text-zinc-400">{name}: </span>}
+      {entries === null && <JsonValue value={value} />}
+      {entries !== null && (
+        <span className="text-zinc-500">
+          {isArray ? '[' : '{'}
+          {!expanded && `${entries.length > 0 ? ` ${entries.length} ${isArray ? 'items' : 'keys'} ` : ''}${isArray ? ']' : '}'}`}
+        </span>
+      )}
+      {issues && <span className="text-red-400"> ← {issues.join('; ')}</span>}
+    </>
+  )
+
+  return (
+    <div>
+      <div
+        className={cn("flex items-start", issues && "bg-red-950/40")}
+        style={{ paddingLeft: `${depth * 12}px` }}
+        title={issues?.join('\n')}
+      >
+        {entries !== null ? (
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-start text-left hover:text-zinc-100"
+          >
+            {expanded
+              ? <ChevronDown className="w-3 h-3 mt-0.5 shrink-0 text-zinc-500" />
+              : <ChevronRight className="w-3 h-3 mt-0.5 shrink-0 text-zinc-500" />}
+            <span className="break-all">{label}</span>
+          </button>
+        ) : (
+          <span className="pl-3 break-all">{label}</span>
+        )}
+      </div>
+      {entries !== null && expanded && (
+        <>
+          {entries.map(([key, child]) => (
+            <JsonNode
+              key={key}
+              name={key}
+              value={child}
+              path={isArray ? `${path}[${key}]` : `${path}.${key}`}
+              depth={depth + 1}
+              expandDepth={expandDepth}
+              issuesByPath={issuesByPath}
+            />
+          ))}
+          <div className="text-zinc-500" style={{ paddingLeft: `${depth * 12 + 12}px` }}>
+            {isArray ? ']' : '}'}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Collapsible view of parsed JSON, with the values that fail the response
+ * schema highlighted
+ */
+export function JsonTree({
+  value,
+  issues = [],
+  expandDepth = 2,
+  className
+}: JsonTreeProps) {
+  const issuesByPath = React.useMemo(() => {
+    const byPath = new Map<string, string[]>()
+    for (const issue of issues) {
+      byPath.set(issue.path, [...(byPath.get(issue.path) ?? []), issue.message])
+    }
+    return byPath
+  }, [issues])
+
+  return (
+    <div className={cn("space-y-2 text-xs font-mono leading-relaxed", className)}>
+      {value !== undefined && (
+        <JsonNode value={value} path="$" depth={0} expandDepth={expandDepth} issuesByPath={issuesByPath} />
+      )}
+      {issues.length > 0 && (
+        <div className="space-y-0.5 text-red-400">
+          {issues.map((issue, index) => (
+            <div key={index}>{issue.path} {issue.message}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
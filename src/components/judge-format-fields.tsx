@@ -0,0 +1,138 @@
+"use client"
+
+import * as React from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  JUDGE_OUTPUT_TYPES,
+  JudgeOutputFormat,
+  JudgeOutputType,
+  createJudgeOutputFormat,
+  validateJudgeOutputFormat
+} from "@/lib/judge-scores"
+
+interface JudgeFormatFieldsProps {
+  format: JudgeOutputFormat
+  onChange: (format: JudgeOutputFormat) => void
+}
+
+const inputClassName = "w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md font-mono text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+const parseNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Output format an LLM judge gives its verdict in
+ */
+export function JudgeFormatFields({ format, onChange }: JudgeFormatFieldsProps) {
+  const issue = validateJudgeOutputFormat(format)
+
+  const field = (id: string, label: string, input: React.ReactNode) => (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-zinc-200">
+        {label}
+      </Label>
+      {input}
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      {field('judge-format', 'Judge Output Format', (
+        <Select value={format.type} onValueChange={(type) => onChange(createJudgeOutputFormat(type as JudgeOutputType))}>
+          <SelectTrigger id="judge-format" className="bg-zinc-800 border-zinc-700 text-zinc-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-zinc-800 border-zinc-700">
+            {JUDGE_OUTPUT_TYPES.map(({ type, label }) => (
+              <SelectItem key={type} value={type} className="text-zinc-100 focus:bg-zinc-700">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+
+      {format.type === 'scale' && (
+        <div className="grid grid-cols-3 gap-3">
+          {field('judge-min', 'Min', (
+            <input
+              id="judge-min"
+              type="number"
+              className={inputClassName}
+              value={format.min}
+              onChange={(e) => onChange({ ...format, min: parseNumber(e.target.value) ?? 0 })}
+            />
+          ))}
+          {field('judge-max', 'Max', (
+            <input
+              id="judge-max"
+              type="number"
+              className={inputClassName}
+              value={format.max}
+              onChange={(e) => onChange({ ...format, max: parseNumber(e.target.value) ?? 0 })}
+            />
+          ))}
+          {field('judge-threshold', 'Pass at', (
+            <input
+              id="judge-threshold"
+              type="number"
+              className={inputClassName}
+              placeholder="optional"
+              value={format.passThreshold ?? ''}
+              onChange={(e) => onChange({ ...format, passThreshold: parseNumber(e.target.value) })}
+            />
+          ))}
+        </div>
+      )}
+
+      {format.type === 'json' && (
+        <div className="grid grid-cols-4 gap-3">
+          {field('judge-score-field', 'Score field', (
+            <input
+              id="judge-score-field"
+              className={inputClassName}
+              value={format.scoreField}
+              onChange={(e) => onChange({ ...format, scoreField: e.target.value })}
+            />
+          ))}
+          {field('judge-pass-field', 'Pass field', (
+            <input
+              id="judge-pass-field"
+              className={inputClassName}
+              placeholder="optional"
+              value={format.passField ?? ''}
+              onChange={(e) => onChange({ ...format, passField: e.target.value || undefined })}
+            />
+          ))}
+          {field('judge-explanation-field', 'Explanation', (
+            <input
+              id="judge-explanation-field"
+              className={inputClassName}
+              placeholder="optional"
+              value={format.explanationField ?? ''}
+              onChange={(e) => onChange({ ...format, explanationField: e.target.value || undefined })}
+            />
+          ))}
+          {field('judge-json-threshold', 'Pass at', (
+            <input
+              id="judge-json-threshold"
+              type="number"
+              className={inputClassName}
+              placeholder="optional"
+              value={format.passThreshold ?? ''}
+              onChange={(e) => onChange({ ...format, passThreshold: parseNumber(e.target.value) })}
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-zinc-500">
+        An instruction for this format is added to the judge prompt, and the score is read from the judge&apos;s answer
+      </p>
+      {issue && <p className="text-xs font-mono text-red-400">{issue}</p>}
+    </div>
+  )
+}
@@ -14,17 +14,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Plus, Check, ChevronUp, ChevronDown, Search } from "lucide-react"
-import { ModelMetadata } from "@/lib/providers"
+import { AvailableModel, ModelMetadata } from "@/lib/providers"
 
 interface ModelSelectorProps {
-  availableModels: ModelMetadata[]
+  availableModels: AvailableModel[]
   selectedModels: ModelMetadata[]
   onModelToggle: (model: ModelMetadata) => void
   disabled?: boolean
   compact?: boolean
 }
 
-type SortField = 'provider' | 'name' | 'inputCost' | 'outputCost'
+type SortField = 'provider' | 'name' | 'context' | 'inputCost' | 'outputCost'
+
+const formatContext = (tokens: number) =>
+  tokens >= 1000000 ? `${+(tokens / 1000000).toFixed(1)}M` : `${Math.round(tokens / 1000)}k`
 type SortDirection = 'asc' | 'desc'
 
 export function ModelSelector({
@@ -36,6 +39,7 @@ export function ModelSelector({
 }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = React.useState(false)
   const [searchTerm, setSearchTerm] = React.useState('')
+  const [runnableOnly, setRunnableOnly] = React.useState(false)
   const [sortField, setSortField] = React.useState<SortField>('provider')
   const [sortDirection, setSortDirection] = React.useState<SortDirection>('asc')
   const [tableMode, setTableMode] = React.useState<'fit' | 'scroll'>('scroll')
@@ -43,6 +47,8 @@ export function ModelSelector({
   const tableRef = React.useRef<HTMLTableElement>(null)
   
   const selectedModelIds = selectedModels.map(m => m.id)
+  const isRunnable = (model: AvailableModel) => model.availability?.available !== false
+  const runnableCount = availableModels.filter(isRunnable).length
   
   const handleModelToggle = (model: ModelMetadata) => {
     onModelToggle(model)
@@ -61,7 +67,7 @@ export function ModelSelector({
     let filtered = availableModels.filter(model => {
       const matchesSearch = model.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            model.provider.toLowerCase().includes(searchTerm.toLowerCase())
-      return matchesSearch
+      return matchesSearch && (!runnableOnly || model.availability?.available !== false)
     })
     
     return filtered.sort((a, b) => {
@@ -77,6 +83,10 @@ export function ModelSelector({
           aValue = a.name
           bValue = b.name
           break
+        case 'context':
+          aValue = a.maxTokens
+          bValue = b.maxTokens
+          break
         case 'inputCost':
           aValue = a.inputCostPer1kTokens
           bValue = b.inputCostPer1kTokens
@@ -97,7 +107,7 @@ export function ModelSelector({
         return sortDirection === 'asc' ? comparison : -comparison
       }
     })
-  }, [availableModels, searchTerm, sortField, sortDirection])
+  }, [availableModels, searchTerm, runnableOnly, sortField, sortDirection])
   
   // Check if table needs toggle button
   React.useEffect(() => {
@@ -135,7 +145,7 @@ export function ModelSelector({
               </div>
             </div>
             <div className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded">
-              {availableModels.length} available
+              {runnableCount} available
             </div>
           </button>
         ) : (
@@ -153,7 +163,7 @@ export function ModelSelector({
                 </p>
               </div>
               <div className="text-xs text-muted-foreground bg-background/50 px-3 py-1 rounded-full">
-                {availableModels.length} models available
+                {runnableCount} models available
               </div>
             </CardContent>
           </Card>
@@ -186,6 +196,13 @@ export function ModelSelector({
               className="pl-10 bg-zinc-950 border-zinc-800 text-zinc-100 placeholder-zinc-500"
             />
           </div>
+          <label className="flex items-center gap-2 mt-3 text-xs font-mono text-zinc-400 cursor-pointer">
+            <Checkbox
+              checked={runnableOnly}
+              onCheckedChange={(checked) => setRunnableOnly(checked === true)}
+            />
+            Only models with an API key ({runnableCount} of {availableModels.length})
+          </label>
         </div>
         
         {/* Table Controls */}
@@ -272,6 +289,21 @@ export function ModelSelector({
                       )}
                     </button>
                   </th>
+                  <th className={`px-4 py-3 text-left text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide border-r border-zinc-800 ${
+                    tableMode === 'fit' ? 'w-24' : 'min-w-24'
+                  }`}>
+                    <button
+                      onClick={() => handleSort('context')}
+                      className="flex items-center gap-2 hover:text-zinc-100 transition-colors"
+                    >
+                      Context
+                      {sortField === 'context' ? (
+                        sortDirection === 'asc' ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />
+                      ) : (
+                        <div className="w-3 h-3 opacity-30"><ChevronUp className="w-3 h-3" /></div>
+                      )}
+                    </button>
+                  </th>
                   <th className={`px-4 py-3 text-left text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide border-r border-zinc-800 ${
                     tableMode === 'fit' ? 'w-32' : 'min-w-32'
                   }`}>
@@ -307,12 +339,14 @@ export function ModelSelector({
               <tbody>
                 {filteredAndSortedModels.map((model) => {
                   const isSelected = selectedModelIds.includes(model.id)
+                  const status = model.availability?.status
                   return (
                     <tr
                       key={model.id}
                       className={`border-b border-zinc-800 hover:bg-zinc-900/50 cursor-pointer transition-colors ${
                         isSelected ? 'bg-zinc-900/30' : ''
-                      }`}
+                      } ${isRunnable(model) ? '' : 'opacity-50'}`}
+                      title={model.availability?.reason}
                       onClick={() => handleModelToggle(model)}
                     >
                       <td 
@@ -333,6 +367,30 @@ export function ModelSelector({
                       </td>
                       <td className="px-4 py-4 text-sm text-zinc-200 font-mono border-r border-zinc-800">
                         {model.name}
+                        {status === 'deprecated' && (
+                          <span
+                            className="ml-2 text-xs text-amber-400 border border-amber-400/40 px-1"
+                            title={model.retiresAt ? `Retires on ${model.retiresAt}` : `Deprecated on ${model.deprecatedAt}`}
+                          >
+                            deprecated
+                          </span>
+                        )}
+                        {!isRunnable(model) && status !== 'retired' && (
+                          <span className="ml-2 text-xs text-zinc-400 border border-zinc-600 px-1">
+                            {model.availability?.keySource === 'missing' ? 'no key' : 'unreachable'}
+                          </span>
+                        )}
+                        {status === 'retired' && (
+                          <span
+                            className="ml-2 text-xs text-red-400 border border-red-400/40 px-1"
+                            title={`Retired on ${model.retiresAt}`}
+                          >
+                            retired
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-4 text-sm font-mono text-zinc-400 border-r border-zinc-800">
+                        {formatContext(model.maxTokens)}
                       </td>
                       <td className="px-4 py-4 text-sm font-mono text-zinc-200 border-r border-zinc-800">
                         ${model.inputCostPer1kTokens.toFixed(4)}/1k
@@ -345,7 +403,7 @@ export function ModelSelector({
                 })}
                 {filteredAndSortedModels.length === 0 && (
                   <tr>
-                    <td colSpan={5} className="p-8 text-center text-zinc-400 font-mono text-sm">
+                    <td colSpan={6} className="p-8 text-center text-zinc-400 font-mono text-sm">
                       No models found matching your search criteria.
                     </td>
                   </tr>
@@ -0,0 +1,332 @@
+"use client"
+
+import * as React from "react"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RunSettings, SamplingParams } from "@/lib/run-settings"
+import { OllamaOptions, ResponseFormat } from "@/lib/providers"
+import { validateResponseFormat } from "@/lib/providers/structured-output"
+import { SlidersHorizontal } from "lucide-react"
+
+interface SamplingControlsProps {
+  params: SamplingParams
+  onChange: (params: SamplingParams) => void
+  /** Shown as placeholders when a field is left blank */
+  placeholders?: SamplingParams
+  idPrefix: string
+  disabled?: boolean
+}
+
+const parseNumber = (value: string, integer = false): number | undefined => {
+  if (value.trim() === '') return undefined
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+const inputClassName = "w-full px-2 py-1 bg-zinc-900 border border-zinc-800 text-xs font-mono text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+
+/**
+ * Temperature, top-p, max tokens and stop sequence inputs. Blank fields are
+ * left unset so they fall back to the defaults.
+ */
+export function SamplingControls({
+  params,
+  onChange,
+  placeholders = {},
+  idPrefix,
+  disabled = false
+}: SamplingControlsProps) {
+  const [stopText, setStopText] = React.useState((params.stopSequences || []).join('\n'))
+
+  // Keep the stop sequence text in sync when the params are reset from outside
+  React.useEffect(() => {
+    const joined = (params.stopSequences || []).join('\n')
+    setStopText(current => current.split('\n').filter(Boolean).join('\n') === joined ? current : joined)
+  }, [params.stopSequences])
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-temperature`} className="text-xs font-mono text-zinc-400">
+            temperature
+          </Label>
+          <input
+            id={`${idPrefix}-temperature`}
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={params.temperature ?? ''}
+            placeholder={placeholders.temperature?.toString() ?? 'default'}
+            onChange={(e) => onChange({ ...params, temperature: parseNumber(e.target.value) })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-top-p`} className="text-xs font-mono text-zinc-400">
+            top_p
+          </Label>
+          <input
+            id={`${idPrefix}-top-p`}
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={params.topP ?? ''}
+            placeholder={placeholders.topP?.toString() ?? 'default'}
+            onChange={(e) => onChange({ ...params, topP: parseNumber(e.target.value) })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-max-tokens`} className="text-xs font-mono text-zinc-400">
+            max_tokens
+          </Label>
+          <input
+            id={`${idPrefix}-max-tokens`}
+            type="number"
+            min={1}
+            step={1}
+            value={params.maxTokens ?? ''}
+            placeholder={placeholders.maxTokens?.toString() ?? 'default'}
+            onChange={(e) => onChange({ ...params, maxTokens: parseNumber(e.target.value, true) })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-stop`} className="text-xs font-mono text-zinc-400">
+          stop sequences (one per line)
+        </Label>
+        <textarea
+          id={`${idPrefix}-stop`}
+          rows={2}
+          value={stopText}
+          placeholder={placeholders.stopSequences?.join(', ') || 'none'}
+          onChange={(e) => {
+            setStopText(e.target.value)
+            const stopSequences = e.target.value.split('\n').filter(Boolean)
+            onChange({ ...params, stopSequences: stopSequences.length > 0 ? stopSequences : undefined })
+          }}
+          className={`${inputClassName} resize-none`}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface OllamaOptionsControlsProps {
+  options: OllamaOptions | undefined
+  /** Called with undefined once every field is blank */
+  onChange: (options: OllamaOptions | undefined) => void
+  idPrefix: string
+}
+
+/**
+ * num_ctx, seed and repeat_penalty inputs for models served by Ollama
+ */
+export function OllamaOptionsControls({
+  options = {},
+  onChange,
+  idPrefix
+}: OllamaOptionsControlsProps) {
+  const update = (fields: OllamaOptions) => {
+    const next = { ...options, ...fields }
+    onChange(Object.values(next).some(value => value !== undefined) ? next : undefined)
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-num-ctx`} className="text-xs font-mono text-zinc-400">
+          num_ctx
+        </Label>
+        <input
+          id={`${idPrefix}-num-ctx`}
+          type="number"
+          min={1}
+          step={1024}
+          value={options.numCtx ?? ''}
+          placeholder="model default"
+          onChange={(e) => update({ numCtx: parseNumber(e.target.value, true) })}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-seed`} className="text-xs font-mono text-zinc-400">
+          seed
+        </Label>
+        <input
+          id={`${idPrefix}-seed`}
+          type="number"
+          step={1}
+          value={options.seed ?? ''}
+          placeholder="random"
+          onChange={(e) => update({ seed: parseNumber(e.target.value, true) })}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-repeat-penalty`} className="text-xs font-mono text-zinc-400">
+          repeat_penalty
+        </Label>
+        <input
+          id={`${idPrefix}-repeat-penalty`}
+          type="number"
+          min={0}
+          step={0.05}
+          value={options.repeatPenalty ?? ''}
+          placeholder="1.1"
+          onChange={(e) => update({ repeatPenalty: parseNumber(e.target.value) })}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  )
+}
+
+const EXAMPLE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['answer', 'confidence'],
+  additionalProperties: false
+}
+
+interface ResponseFormatControlsProps {
+  format: ResponseFormat | undefined
+  onChange: (format: ResponseFormat | undefined) => void
+  disabled?: boolean
+}
+
+/**
+ * Response format select and, for JSON Schema, the schema responses are
+ * checked against. While the schema text is invalid the last valid schema
+ * stays in use.
+ */
+function ResponseFormatControls({
+  format,
+  onChange,
+  disabled = false
+}: ResponseFormatControlsProps) {
+  const [schemaText, setSchemaText] = React.useState(() => JSON.stringify(
+    format?.type === 'json_schema' ? format.schema : EXAMPLE_RESPONSE_SCHEMA, null, 2
+  ))
+  const [schemaError, setSchemaError] = React.useState<string | null>(null)
+
+  const handleTypeChange = (type: string) => {
+    if (type === 'json_object') {
+      onChange({ type: 'json_object' })
+    } else if (type === 'json_schema') {
+      try {
+        onChange({ type: 'json_schema', schema: JSON.parse(schemaText) })
+      } catch {
+        onChange({ type: 'json_schema', schema: EXAMPLE_RESPONSE_SCHEMA })
+        setSchemaText(JSON.stringify(EXAMPLE_RESPONSE_SCHEMA, null, 2))
+      }
+      setSchemaError(null)
+    } else {
+      onChange(undefined)
+    }
+  }
+
+  const handleSchemaChange = (text: string) => {
+    setSchemaText(text)
+    let schema: unknown
+    try {
+      schema = JSON.parse(text)
+    } catch {
+      setSchemaError('Schema must be valid JSON')
+      return
+    }
+    const next: ResponseFormat = { type: 'json_schema', schema: schema as Record<string, any> }
+    const issue = validateResponseFormat(next)
+    setSchemaError(issue)
+    if (!issue) onChange(next)
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="response-format" className="text-xs font-mono text-zinc-400">
+        response format
+      </Label>
+      <Select value={format?.type ?? 'text'} onValueChange={handleTypeChange} disabled={disabled}>
+        <SelectTrigger id="response-format" className="h-7 bg-zinc-900 border-zinc-800 font-mono text-xs text-zinc-100">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-zinc-900 border-zinc-800">
+          <SelectItem value="text" className="font-mono text-xs text-zinc-100 focus:bg-zinc-800">text</SelectItem>
+          <SelectItem value="json_object" className="font-mono text-xs text-zinc-100 focus:bg-zinc-800">json object</SelectItem>
+          <SelectItem value="json_schema" className="font-mono text-xs text-zinc-100 focus:bg-zinc-800">json schema</SelectItem>
+        </SelectContent>
+      </Select>
+      {format?.type === 'json_schema' && (
+        <>
+          <Textarea
+            id="response-schema"
+            value={schemaText}
+            onChange={(e) => handleSchemaChange(e.target.value)}
+            className="min-h-[120px] bg-zinc-900 border-zinc-800 font-mono text-xs text-zinc-100 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            disabled={disabled}
+          />
+          {schemaError && (
+            <p className="text-xs font-mono text-red-400">{schemaError}; using the last valid schema</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface ParametersPanelProps {
+  settings: RunSettings
+  onSettingsChange: (settings: RunSettings) => void
+  disabled?: boolean
+}
+
+export function ParametersPanel({
+  settings,
+  onSettingsChange,
+  disabled = false
+}: ParametersPanelProps) {
+  return (
+    <div className="border border-zinc-800 bg-zinc-950 p-4 space-y-3">
+      <div className="flex items-center gap-2 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide">
+        <SlidersHorizontal className="w-3 h-3" />
+        Parameters
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="system-message" className="text-xs font-mono text-zinc-400">
+          system message
+        </Label>
+        <Textarea
+          id="system-message"
+          value={settings.systemMessage}
+          onChange={(e) => onSettingsChange({ ...settings, systemMessage: e.target.value })}
+          placeholder="optional instructions sent with every prompt"
+          className="min-h-[60px] resize-none bg-zinc-900 border-zinc-800 font-mono text-xs text-zinc-100 placeholder:text-zinc-500 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+          disabled={disabled}
+        />
+      </div>
+      <SamplingControls
+        idPrefix="defaults"
+        params={settings.defaults}
+        onChange={(defaults) => onSettingsChange({ ...settings, defaults })}
+        disabled={disabled}
+      />
+      <ResponseFormatControls
+        format={settings.responseFormat}
+        onChange={(responseFormat) => onSettingsChange({ ...settings, responseFormat })}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
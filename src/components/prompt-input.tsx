@@ -5,46 +5,109 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { Play, Square, RotateCcw } from "lucide-react"
+import { ImageThumbnails } from "@/components/image-thumbnails"
+import { ImageInput } from "@/lib/providers"
+import { IMAGE_MEDIA_TYPES } from "@/lib/providers/messages"
+import { isSupportedImage, readImageFile } from "@/lib/images"
+import { Play, Square, RotateCcw, ImagePlus } from "lucide-react"
 
 interface PromptInputProps {
   prompt: string
   onPromptChange: (prompt: string) => void
   onRun: () => void
+  /** Stops the current run; the run button becomes a stop button while running */
+  onStop?: () => void
   onClear: () => void
   isRunning: boolean
   disabled?: boolean
   autoRunEvals?: boolean
   onAutoRunEvalsChange?: (checked: boolean) => void
   hasEvals?: boolean
+  /** Name of the test case being edited */
+  label?: string
+  /** Whether there is anything to run; defaults to the prompt being non-empty */
+  canRun?: boolean
+  /** Images attached to the prompt; attaching is available when `onImagesChange` is set */
+  images?: ImageInput[]
+  onImagesChange?: (images: ImageInput[]) => void
 }
 
 export function PromptInput({
   prompt,
   onPromptChange,
   onRun,
+  onStop,
   onClear,
   isRunning,
   disabled = false,
   autoRunEvals = false,
   onAutoRunEvalsChange,
-  hasEvals = false
+  hasEvals = false,
+  label,
+  canRun,
+  images = [],
+  onImagesChange
 }: PromptInputProps) {
   const maxLength = 4000
   const characterCount = prompt.length
   const isOverLimit = characterCount > maxLength
+  const hasRunnablePrompt = canRun ?? !!prompt.trim()
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const [imageError, setImageError] = React.useState<string | null>(null)
+  
+  const attachFiles = async (files: File[]) => {
+    if (!onImagesChange || files.length === 0) return
+    const errors: string[] = []
+    const read = await Promise.all(files.map(file => readImageFile(file).catch(error => {
+      errors.push(error instanceof Error ? error.message : String(error))
+      return null
+    })))
+    const attached = read.filter((image): image is ImageInput => image !== null)
+    if (attached.length > 0) {
+      onImagesChange([...images, ...attached])
+    }
+    setImageError(errors.length > 0 ? errors.join('; ') : null)
+  }
+  
+  // Pasted screenshots arrive as files; text pastes are left alone
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!onImagesChange) return
+    const files = Array.from(e.clipboardData.files).filter(isSupportedImage)
+    if (files.length > 0) {
+      e.preventDefault()
+      attachFiles(files)
+    }
+  }
   
   return (
     <div className="border border-zinc-800 bg-zinc-950 p-4">
       <div className="flex gap-3">
         <div className="flex-1">
+          {label && (
+            <div className="mb-2 text-xs font-mono text-zinc-400">
+              {label}
+            </div>
+          )}
           <Textarea
             value={prompt}
             onChange={(e) => onPromptChange(e.target.value)}
-            placeholder="enter prompt to compare across models"
+            onPaste={handlePaste}
+            placeholder={onImagesChange ? "enter prompt to compare across models (paste images to attach)" : "enter prompt to compare across models"}
             className="min-h-[80px] resize-none bg-zinc-900 border-zinc-800 font-mono text-sm text-zinc-100 placeholder:text-zinc-500 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
             disabled={disabled || isRunning}
           />
+          {images.length > 0 && (
+            <ImageThumbnails
+              images={images}
+              onRemove={disabled || isRunning || !onImagesChange
+                ? undefined
+                : (index) => onImagesChange(images.filter((_, i) => i !== index))}
+              className="mt-2"
+            />
+          )}
+          {imageError && (
+            <div className="mt-2 text-xs font-mono text-red-400">{imageError}</div>
+          )}
           <div className="flex justify-between items-center mt-2 text-xs font-mono">
             <div className={isOverLimit ? "text-red-400" : "text-zinc-500"}>
               {characterCount}/{maxLength}
@@ -73,15 +136,15 @@ export function PromptInput({
             </div>
           )}
           <Button
-            onClick={onRun}
-            disabled={!prompt.trim() || isOverLimit || disabled || isRunning}
+            onClick={isRunning ? onStop : onRun}
+            disabled={isRunning ? !onStop : !hasRunnablePrompt || isOverLimit || disabled}
             size="sm"
-            className="bg-emerald-600 hover:bg-emerald-700 text-white font-mono text-xs h-8 px-3"
+            className={`${isRunning ? "bg-red-600 hover:bg-red-700" : "bg-emerald-600 hover:bg-emerald-700"} text-white font-mono text-xs h-8 px-3`}
           >
             {isRunning ? (
               <>
                 <Square className="w-3 h-3 mr-1" />
-                running
+                stop
               </>
             ) : (
               <>
@@ -90,9 +153,39 @@ export function PromptInput({
               </>
             )}
           </Button>
+          {onImagesChange && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={IMAGE_MEDIA_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  attachFiles(Array.from(e.target.files || []))
+                  // Let the same file be picked again after removing it
+                  e.target.value = ''
+                }}
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isRunning}
+                variant="outline"
+                size="sm"
+                className="border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 font-mono text-xs h-8 px-3"
+                title="Attach images (PNG, JPEG, GIF or WebP)"
+              >
+                <ImagePlus className="w-3 h-3 mr-1" />
+                image
+              </Button>
+            </>
+          )}
           <Button
-            onClick={onClear}
-            disabled={!prompt.trim() || disabled || isRunning}
+            onClick={() => {
+              setImageError(null)
+              onClear()
+            }}
+            disabled={(!prompt.trim() && images.length === 0) || disabled || isRunning}
             variant="outline"
             size="sm"
             className="border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 font-mono text-xs h-8 px-3"
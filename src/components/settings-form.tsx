@@ -5,6 +5,7 @@ import { Download, Upload, RefreshCw, AlertTriangle, CheckCircle2, Info } from "
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ProviderSettings } from "@/components/provider-settings"
+import { CustomEndpointSettings } from "@/components/custom-endpoint-settings"
 import { 
   getSupportedProviders, 
   getStoredApiKeys, 
@@ -169,6 +170,9 @@ export function SettingsForm({ className }: SettingsFormProps) {
         </div>
       </div>
       
+      {/* Custom Endpoints */}
+      <CustomEndpointSettings />
+      
       {/* Settings Management */}
       <Card>
         <CardHeader>
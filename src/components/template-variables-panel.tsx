@@ -0,0 +1,113 @@
+"use client"
+
+import * as React from "react"
+import { extractVariables, TemplateVariable } from "@/lib/templates"
+import { AlertTriangle, Braces } from "lucide-react"
+
+interface TemplateIssue {
+  testCaseName: string
+  issues: string[]
+}
+
+interface TemplateVariablesPanelProps {
+  /** Templates of the active test case (prompt, system message) */
+  templates: string[]
+  values: Record<string, string>
+  onValueChange: (name: string, value: string) => void
+  /** Test cases that cannot run because of template problems */
+  issues: TemplateIssue[]
+  disabled?: boolean
+}
+
+export function TemplateVariablesPanel({
+  templates,
+  values,
+  onValueChange,
+  issues,
+  disabled = false
+}: TemplateVariablesPanelProps) {
+  const { variables, syntaxError } = React.useMemo(() => {
+    const found = new Map<string, TemplateVariable>()
+    try {
+      for (const template of templates) {
+        for (const variable of extractVariables(template)) {
+          const existing = found.get(variable.name)
+          found.set(variable.name, existing
+            ? {
+                ...existing,
+                hasDefault: existing.hasDefault && variable.hasDefault,
+                isBlock: existing.isBlock && variable.isBlock
+              }
+            : variable)
+        }
+      }
+      return { variables: Array.from(found.values()), syntaxError: null }
+    } catch (error) {
+      return { variables: [], syntaxError: error instanceof Error ? error.message : 'Invalid template' }
+    }
+  }, [templates])
+
+  if (variables.length === 0 && !syntaxError && issues.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="border border-zinc-800 bg-zinc-950 p-4 space-y-3">
+      <div className="flex items-center gap-2 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide">
+        <Braces className="w-3 h-3" />
+        Variables
+      </div>
+
+      {syntaxError && (
+        <div className="text-xs font-mono text-red-400">
+          {syntaxError}
+        </div>
+      )}
+
+      {variables.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {variables.map((variable) => {
+            const value = values[variable.name] ?? ''
+            const isUnbound = !value && !variable.hasDefault
+
+            return (
+              <div key={variable.name} className="flex items-center gap-2">
+                <label
+                  htmlFor={`var-${variable.name}`}
+                  className={`w-32 shrink-0 truncate text-xs font-mono ${isUnbound ? 'text-red-400' : 'text-zinc-400'}`}
+                  title={variable.name}
+                >
+                  {`{{${variable.name}}}`}
+                </label>
+                <input
+                  id={`var-${variable.name}`}
+                  value={value}
+                  onChange={(e) => onValueChange(variable.name, e.target.value)}
+                  placeholder={isUnbound ? 'unbound' : variable.isBlock ? 'optional' : 'default'}
+                  className={`flex-1 px-2 py-1 bg-zinc-900 border text-xs font-mono text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:ring-1 focus:ring-emerald-500 ${
+                    isUnbound ? 'border-red-900' : 'border-zinc-800'
+                  }`}
+                  disabled={disabled}
+                />
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="space-y-1 border border-yellow-900 bg-yellow-950/30 px-3 py-2">
+          <div className="flex items-center gap-2 text-xs font-mono text-yellow-400">
+            <AlertTriangle className="w-3 h-3" />
+            fix template issues to run
+          </div>
+          {issues.map(({ testCaseName, issues: messages }) => (
+            <p key={testCaseName} className="text-xs font-mono text-zinc-400">
+              {testCaseName}: {messages.join('; ')}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
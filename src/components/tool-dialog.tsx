@@ -0,0 +1,184 @@
+"use client"
+
+import * as React from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { validateToolDefinition } from "@/lib/providers/tools"
+import { TOOL_MOCK_TIME_LIMIT_MS, ToolConfig, ToolMock } from "@/lib/tool-mocks"
+
+interface ToolDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (tool: ToolConfig) => void
+  /** Tool being edited */
+  tool: ToolConfig | null
+  /** Names of the other tools, which this one must not reuse */
+  takenNames: string[]
+}
+
+export function ToolDialog({
+  open,
+  onOpenChange,
+  onSave,
+  tool,
+  takenNames
+}: ToolDialogProps) {
+  const [name, setName] = React.useState('')
+  const [description, setDescription] = React.useState('')
+  const [parametersText, setParametersText] = React.useState('')
+  const [mockType, setMockType] = React.useState<ToolMock['type']>('static')
+  const [mockText, setMockText] = React.useState('')
+
+  // Load the tool being edited each time the dialog opens
+  React.useEffect(() => {
+    if (!open || !tool) return
+    setName(tool.definition.name)
+    setDescription(tool.definition.description || '')
+    setParametersText(JSON.stringify(tool.definition.parameters, null, 2))
+    setMockType(tool.mock.type)
+    setMockText(tool.mock.type === 'static' ? tool.mock.response : tool.mock.source)
+  }, [tool, open])
+
+  const { parameters, issues } = React.useMemo(() => {
+    let parsed: any
+    try {
+      parsed = JSON.parse(parametersText)
+    } catch {
+      return { parameters: undefined, issues: ['Parameters must be valid JSON'] }
+    }
+    const definitionIssues = validateToolDefinition({ name: name.trim(), description, parameters: parsed })
+    if (takenNames.includes(name.trim())) {
+      definitionIssues.push(`Another tool is already named ${name.trim()}`)
+    }
+    return { parameters: parsed, issues: definitionIssues }
+  }, [name, description, parametersText, takenNames])
+
+  const handleSubmit = () => {
+    if (!tool || !parameters || issues.length > 0) return
+
+    onSave({
+      id: tool.id,
+      definition: {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        parameters
+      },
+      mock: mockType === 'static'
+        ? { type: 'static', response: mockText }
+        : { type: 'function', source: mockText }
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] bg-zinc-900 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Tool</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Offered to every column whose model supports tool calling
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="tool-name" className="text-zinc-200">
+                Name
+              </Label>
+              <input
+                id="tool-name"
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md font-mono text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="get_weather"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tool-description" className="text-zinc-200">
+                Description
+              </Label>
+              <input
+                id="tool-description"
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="What the tool does and when to use it"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tool-parameters" className="text-zinc-200">
+              Parameters (JSON Schema)
+            </Label>
+            <Textarea
+              id="tool-parameters"
+              className="min-h-[160px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 font-mono text-xs"
+              value={parametersText}
+              onChange={(e) => setParametersText(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tool-mock-type" className="text-zinc-200">
+              Mock Result
+            </Label>
+            <Select value={mockType} onValueChange={(v) => setMockType(v as ToolMock['type'])}>
+              <SelectTrigger id="tool-mock-type" className="bg-zinc-800 border-zinc-700 text-zinc-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                <SelectItem value="static" className="text-zinc-100 focus:bg-zinc-700">
+                  Fixed response
+                </SelectItem>
+                <SelectItem value="function" className="text-zinc-100 focus:bg-zinc-700">
+                  JavaScript function
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Textarea
+              className="min-h-[100px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 font-mono text-xs"
+              placeholder={mockType === 'static'
+                ? '{"temperature": 21, "conditions": "sunny"}'
+                : 'return { temperature: args.city === "Oslo" ? 4 : 21 }'}
+              value={mockText}
+              onChange={(e) => setMockText(e.target.value)}
+            />
+            <p className="text-xs text-zinc-500">
+              {mockType === 'static'
+                ? 'Returned for every call of this tool'
+                : `Function body run in a Web Worker in this browser, without network or storage access, with the parsed arguments as args; may be async and is stopped after ${TOOL_MOCK_TIME_LIMIT_MS / 1000}s. Objects are returned as JSON.`}
+            </p>
+          </div>
+
+          {issues.length > 0 && (
+            <div className="space-y-1 text-xs font-mono text-red-400">
+              {issues.map(issue => <div key={issue}>{issue}</div>)}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            className="bg-zinc-800 text-zinc-100 hover:bg-zinc-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={issues.length > 0}
+            className="bg-blue-600 text-white hover:bg-blue-700 disabled:bg-zinc-700 disabled:text-zinc-400"
+          >
+            Save Tool
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
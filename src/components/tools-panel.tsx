@@ -0,0 +1,148 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { ToolDialog } from "@/components/tool-dialog"
+import { ToolConfig, ToolSettings, createTool } from "@/lib/tool-mocks"
+import { Plus, Pencil, Trash2, Wrench } from "lucide-react"
+
+interface ToolsPanelProps {
+  settings: ToolSettings
+  onSettingsChange: (settings: ToolSettings) => void
+  disabled?: boolean
+}
+
+/**
+ * Tools offered to the models, and whether their calls are answered with
+ * the tools' mocks in a multi-step loop
+ */
+export function ToolsPanel({
+  settings,
+  onSettingsChange,
+  disabled = false
+}: ToolsPanelProps) {
+  const [editingTool, setEditingTool] = React.useState<ToolConfig | null>(null)
+  const { tools } = settings
+
+  const handleSave = (tool: ToolConfig) => {
+    const exists = tools.some(t => t.id === tool.id)
+    onSettingsChange({
+      ...settings,
+      tools: exists ? tools.map(t => t.id === tool.id ? tool : t) : [...tools, tool]
+    })
+  }
+
+  return (
+    <div className="border border-zinc-800 bg-zinc-950 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono font-semibold text-zinc-300 uppercase tracking-wide">
+          <Wrench className="w-3 h-3" />
+          Tools
+          <span className="text-zinc-500 normal-case font-normal">{tools.length}</span>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setEditingTool(createTool(tools))}
+          disabled={disabled}
+          className="h-6 px-2 text-xs font-mono text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          add
+        </Button>
+      </div>
+
+      {tools.length === 0 ? (
+        <p className="text-xs font-mono text-zinc-500">
+          no tools; add one to compare how models call it
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {tools.map(tool => (
+            <div key={tool.id} className="flex items-center justify-between gap-2 text-xs font-mono">
+              <div className="min-w-0">
+                <div className="text-zinc-200 truncate">{tool.definition.name}</div>
+                {tool.definition.description && (
+                  <div className="text-zinc-500 truncate">{tool.definition.description}</div>
+                )}
+              </div>
+              <div className="flex items-center shrink-0">
+                <span className="mr-1 text-zinc-600">{tool.mock.type === 'static' ? 'fixed' : 'js'}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditingTool(tool)}
+                  disabled={disabled}
+                  className="h-6 w-6 p-0 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800"
+                  title="Edit tool"
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onSettingsChange({ ...settings, tools: tools.filter(t => t.id !== tool.id) })}
+                  disabled={disabled}
+                  className="h-6 w-6 p-0 text-zinc-500 hover:text-red-400 hover:bg-zinc-800"
+                  title="Remove tool"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tools.length > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="tool-loop"
+              checked={settings.loop}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, loop: checked === true })}
+              className="h-3.5 w-3.5 border-zinc-600 data-[state=checked]:bg-emerald-600 data-[state=checked]:border-emerald-600"
+              disabled={disabled}
+            />
+            <Label htmlFor="tool-loop" className="text-xs font-mono text-zinc-400 cursor-pointer select-none">
+              answer calls with mocks
+            </Label>
+          </div>
+          {settings.loop && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="tool-max-steps" className="text-xs font-mono text-zinc-400">
+                max steps
+              </Label>
+              <input
+                id="tool-max-steps"
+                type="number"
+                min={2}
+                max={20}
+                step={1}
+                value={settings.maxSteps}
+                onChange={(e) => {
+                  const maxSteps = parseInt(e.target.value, 10)
+                  if (!Number.isNaN(maxSteps)) {
+                    onSettingsChange({ ...settings, maxSteps: Math.min(20, Math.max(2, maxSteps)) })
+                  }
+                }}
+                className="w-14 px-2 py-1 bg-zinc-900 border border-zinc-800 text-xs font-mono text-zinc-100 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <ToolDialog
+        open={editingTool !== null}
+        onOpenChange={(open) => !open && setEditingTool(null)}
+        onSave={handleSave}
+        tool={editingTool}
+        takenNames={tools.filter(t => t.id !== editingTool?.id).map(t => t.definition.name)}
+      />
+    </div>
+  )
+}
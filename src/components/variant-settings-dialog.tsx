@@ -0,0 +1,141 @@
+"use client"
+
+import * as React from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { SamplingControls, OllamaOptionsControls } from "@/components/parameters-panel"
+import { ModelVariant } from "@/lib/model-variants"
+import { SamplingParams } from "@/lib/run-settings"
+
+interface VariantSettingsDialogProps {
+  variant: ModelVariant | null
+  onOpenChange: (open: boolean) => void
+  /** Global defaults, shown for fields the variant does not override */
+  defaults: SamplingParams
+  onSave: (variant: ModelVariant) => void
+}
+
+export function VariantSettingsDialog({
+  variant,
+  onOpenChange,
+  defaults,
+  onSave
+}: VariantSettingsDialogProps) {
+  const [label, setLabel] = React.useState('')
+  const [systemMessage, setSystemMessage] = React.useState('')
+  const [params, setParams] = React.useState<SamplingParams>({})
+
+  // Start from the saved variant each time the dialog opens
+  React.useEffect(() => {
+    if (!variant) return
+    setLabel(variant.label || '')
+    setSystemMessage(variant.systemMessage || '')
+    setParams(variant.params)
+  }, [variant])
+
+  const handleSave = () => {
+    if (!variant) return
+    onSave({
+      ...variant,
+      label: label.trim() || undefined,
+      systemMessage: systemMessage.trim() ? systemMessage : undefined,
+      params
+    })
+    onOpenChange(false)
+  }
+
+  const handleReset = () => {
+    setSystemMessage('')
+    setParams({})
+  }
+
+  return (
+    <Dialog open={!!variant} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-zinc-900 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">
+            Column Settings
+          </DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Settings for this {variant?.model.name} column. Leave a field blank to use the default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="variant-label" className="text-zinc-200">
+              Label
+            </Label>
+            <input
+              id="variant-label"
+              className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder={variant?.model.name}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="variant-system-message" className="text-zinc-200">
+              System Message
+            </Label>
+            <Textarea
+              id="variant-system-message"
+              className="min-h-[80px] bg-zinc-800 border-zinc-700 text-zinc-100 placeholder-zinc-500 font-mono text-xs focus:ring-2 focus:ring-blue-500"
+              placeholder="overrides the test case and default system message"
+              value={systemMessage}
+              onChange={(e) => setSystemMessage(e.target.value)}
+            />
+          </div>
+
+          <SamplingControls
+            idPrefix="variant"
+            params={params}
+            onChange={setParams}
+            placeholders={defaults}
+          />
+          {variant && (
+            <p className="text-xs font-mono text-zinc-500">
+              max_tokens is capped at {variant.model.maxTokens.toLocaleString()} for this model
+            </p>
+          )}
+          {variant?.model.provider === 'ollama' && (
+            <div className="space-y-2">
+              <Label className="text-zinc-200">Ollama Options</Label>
+              <OllamaOptionsControls
+                idPrefix="variant-ollama"
+                options={params.ollamaOptions}
+                onChange={(ollamaOptions) => setParams({ ...params, ollamaOptions })}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={handleReset}
+            className="bg-zinc-800 text-zinc-100 hover:bg-zinc-700 mr-auto"
+          >
+            Reset to Defaults
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => onOpenChange(false)}
+            className="bg-zinc-800 text-zinc-100 hover:bg-zinc-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
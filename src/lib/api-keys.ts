@@ -68,6 +68,15 @@ export function getApiKey(provider: string): string | null {
   return keys[provider]?.apiKey || null
 }
 
+/**
+ * Providers with a stored API key, for telling the server which models the
+ * browser can run without sending the keys themselves
+ */
+export function getStoredKeyProviders(): string[] {
+  const keys = getStoredApiKeys()
+  return Object.keys(keys).filter(provider => !!keys[provider]?.apiKey)
+}
+
 /**
  * Remove API key for a specific provider
  */
@@ -127,6 +136,10 @@ export function validateApiKeyFormat(provider: string, apiKey: string): boolean
       // OpenAI keys typically start with 'sk-'
       return cleanKey.startsWith('sk-') && cleanKey.length > 20
     
+    case 'google':
+      // Google AI Studio keys start with 'AIza'
+      return cleanKey.startsWith('AIza') && cleanKey.length > 20
+    
     default:
       // Generic validation: non-empty string
       return cleanKey.length > 0
@@ -238,6 +251,13 @@ export function getSupportedProviders(): Array<{
       description: 'GPT models by OpenAI',
       website: 'https://platform.openai.com/api-keys',
       keyFormat: 'sk-...'
+    },
+    {
+      id: 'google',
+      name: 'Google AI',
+      description: 'Gemini models by Google',
+      website: 'https://aistudio.google.com/apikey',
+      keyFormat: 'AIza...'
     }
   ]
 }
\ No newline at end of file
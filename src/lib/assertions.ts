@@ -0,0 +1,247 @@
+/**
+ * Deterministic assertions for the assertion evaluation
+ *
+ * Each assertion checks one response without a model call and passes or
+ * fails with a reason. Text values left blank compare against the test
+ * case's expected output instead.
+ */
+
+import { parseJson } from '@/lib/providers/structured-output'
+
+export type TextMatchKind = 'contains' | 'not-contains' | 'starts-with'
+export type LengthUnit = 'words' | 'characters' | 'tokens'
+
+export type Assertion =
+  | { kind: TextMatchKind; value: string; caseSensitive: boolean }
+  | { kind: 'regex'; pattern: string; flags: string }
+  /** With `normalize`, case, surrounding whitespace, runs of whitespace and trailing punctuation are ignored */
+  | { kind: 'equals'; value: string; normalize: boolean }
+  | { kind: 'is-json' }
+  /** `value` is read as JSON when it parses, e.g. `42` or `"Paris"`, and as a string otherwise */
+  | { kind: 'json-path'; path: string; operator: 'exists' | 'equals'; value: string }
+  | { kind: 'length'; unit: LengthUnit; min?: number; max?: number }
+
+export type AssertionKind = Assertion['kind']
+
+export const ASSERTION_KINDS: { kind: AssertionKind; label: string }[] = [
+  { kind: 'contains', label: 'Contains' },
+  { kind: 'not-contains', label: 'Does not contain' },
+  { kind: 'starts-with', label: 'Starts with' },
+  { kind: 'regex', label: 'Matches regex' },
+  { kind: 'equals', label: 'Equals' },
+  { kind: 'is-json', label: 'Is valid JSON' },
+  { kind: 'json-path', label: 'JSON path value' },
+  { kind: 'length', label: 'Length bounds' },
+]
+
+export interface AssertionInput {
+  output: string
+  /** The test case's expected output */
+  expected?: string
+  /** Output tokens reported by the provider, for token bounds */
+  outputTokens?: number
+}
+
+export interface AssertionResult {
+  pass: boolean
+  reason: string
+}
+
+/**
+ * A new assertion of a kind, with its default options
+ */
+export function createAssertion(kind: AssertionKind): Assertion {
+  switch (kind) {
+    case 'contains':
+    case 'not-contains':
+    case 'starts-with':
+      return { kind, value: '', caseSensitive: false }
+    case 'regex':
+      return { kind, pattern: '', flags: 'i' }
+    case 'equals':
+      return { kind, value: '', normalize: true }
+    case 'is-json':
+      return { kind }
+    case 'json-path':
+      return { kind, path: '$', operator: 'exists', value: '' }
+    case 'length':
+      return { kind, unit: 'words' }
+  }
+}
+
+/**
+ * Parse a JSON path such as `$.items[0].name` or `$['odd key']` into its keys
+ * and indexes, or return null if it is not one
+ */
+export function parseJsonPath(path: string): (string | number)[] | null {
+  if (!path.startsWith('$')) return null
+
+  const segment = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y
+  const keys: (string | number)[] = []
+  segment.lastIndex = 1
+  while (segment.lastIndex < path.length) {
+    const match = segment.exec(path)
+    if (!match) return null
+    keys.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]))
+  }
+  return keys
+}
+
+/**
+ * Problem with an assertion's options, or null if it can run
+ */
+export function validateAssertion(assertion: Assertion): string | null {
+  switch (assertion.kind) {
+    case 'regex':
+      if (!assertion.pattern) return 'Enter a pattern'
+      try {
+        new RegExp(assertion.pattern, assertion.flags)
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid regular expression'
+      }
+      return null
+    case 'json-path':
+      return parseJsonPath(assertion.path) ? null : 'Paths start with $, e.g. $.items[0].name'
+    case 'length':
+      if (assertion.min === undefined && assertion.max === undefined) return 'Set a minimum, a maximum or both'
+      if (assertion.min !== undefined && assertion.max !== undefined && assertion.min > assertion.max) {
+        return 'The minimum is above the maximum'
+      }
+      return null
+    default:
+      return null
+  }
+}
+
+const quote = (text: string) => JSON.stringify(text.length > 60 ? `${text.slice(0, 60)}…` : text)
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[.!?]+$/, '')
+}
+
+function countLength(input: AssertionInput, unit: LengthUnit): number {
+  if (unit === 'characters') return input.output.length
+  if (unit === 'words') return input.output.split(/\s+/).filter(Boolean).length
+  // Providers report tokens; sample responses fall back to ~4 characters per token
+  return input.outputTokens || Math.ceil(input.output.length / 4)
+}
+
+/**
+ * Blank values stand for the expected output, which must then be set
+ */
+function valueOrExpected(value: string, input: AssertionInput): string {
+  if (value) return value
+  if (!input.expected) {
+    throw new Error('The assertion has no value and the test case has no expected output')
+  }
+  return input.expected
+}
+
+/**
+ * Check a response against an assertion. Throws if the assertion cannot run,
+ * e.g. for an invalid regex or a missing expected output.
+ */
+export function runAssertion(assertion: Assertion, input: AssertionInput): AssertionResult {
+  const { output } = input
+
+  switch (assertion.kind) {
+    case 'contains':
+    case 'not-contains':
+    case 'starts-with': {
+      const value = valueOrExpected(assertion.value, input)
+      const [text, target] = assertion.caseSensitive ? [output, value] : [output.toLowerCase(), value.toLowerCase()]
+      if (assertion.kind === 'starts-with') {
+        const pass = text.trimStart().startsWith(target)
+        return { pass, reason: `${pass ? 'Starts' : 'Does not start'} with ${quote(value)}` }
+      }
+      const found = text.includes(target)
+      return {
+        pass: assertion.kind === 'contains' ? found : !found,
+        reason: `${found ? 'Contains' : 'Does not contain'} ${quote(value)}`
+      }
+    }
+
+    case 'regex': {
+      const issue = validateAssertion(assertion)
+      if (issue) throw new Error(issue)
+      const match = output.match(new RegExp(assertion.pattern, assertion.flags))
+      return match
+        ? { pass: true, reason: `Matched ${quote(match[0])}` }
+        : { pass: false, reason: `No match for /${assertion.pattern}/${assertion.flags}` }
+    }
+
+    case 'equals': {
+      const value = valueOrExpected(assertion.value, input)
+      const pass = assertion.normalize ? normalizeText(output) === normalizeText(value) : output === value
+      return { pass, reason: `${pass ? 'Equals' : 'Differs from'} ${quote(value)}${assertion.normalize ? ' (normalized)' : ''}` }
+    }
+
+    case 'is-json': {
+      const { error } = parseJson(output)
+      return error === undefined
+        ? { pass: true, reason: 'Valid JSON' }
+        : { pass: false, reason: `Not valid JSON: ${error}` }
+    }
+
+    case 'json-path': {
+      const keys = parseJsonPath(assertion.path)
+      if (!keys) throw new Error(`Invalid JSON path: ${assertion.path}`)
+      const { value: document, error } = parseJson(output)
+      if (error !== undefined) {
+        return { pass: false, reason: `Not valid JSON: ${error}` }
+      }
+
+      let current: unknown = document
+      for (const key of keys) {
+        if (typeof current !== 'object' || current === null || !(key in current)) {
+          return { pass: false, reason: `${assertion.path} does not exist` }
+        }
+        current = (current as Record<string | number, unknown>)[key]
+      }
+      if (assertion.operator === 'exists') {
+        return { pass: true, reason: `${assertion.path} exists` }
+      }
+
+      let expected: unknown = assertion.value
+      try {
+        expected = JSON.parse(assertion.value)
+      } catch {
+        // Not JSON, so compared as a string
+      }
+      const pass = JSON.stringify(current) === JSON.stringify(expected)
+      return { pass, reason: `${assertion.path} is ${JSON.stringify(current)}${pass ? '' : `, expected ${JSON.stringify(expected)}`}` }
+    }
+
+    case 'length': {
+      const length = countLength(input, assertion.unit)
+      const { min, max } = assertion
+      const pass = (min === undefined || length >= min) && (max === undefined || length <= max)
+      const bounds = min !== undefined && max !== undefined
+        ? `${min}-${max}`
+        : min !== undefined ? `at least ${min}` : `at most ${max}`
+      return { pass, reason: `${length} ${assertion.unit}, expected ${bounds}` }
+    }
+  }
+}
+
+/**
+ * Short description of an assertion, e.g. `contains "Paris"`
+ */
+export function describeAssertion(assertion: Assertion): string {
+  const label = ASSERTION_KINDS.find(k => k.kind === assertion.kind)?.label.toLowerCase() ?? assertion.kind
+  switch (assertion.kind) {
+    case 'contains':
+    case 'not-contains':
+    case 'starts-with':
+    case 'equals':
+      return `${label} ${assertion.value ? quote(assertion.value) : 'expected output'}`
+    case 'regex':
+      return `${label} /${assertion.pattern}/${assertion.flags}`
+    case 'json-path':
+      return assertion.operator === 'exists' ? `${assertion.path} exists` : `${assertion.path} equals ${assertion.value}`
+    case 'length':
+      return `${assertion.unit} ${assertion.min ?? 0}-${assertion.max ?? '∞'}`
+    default:
+      return label
+  }
+}
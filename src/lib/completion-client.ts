@@ -0,0 +1,76 @@
+/**
+ * Browser-side client for the /api/complete route
+ *
+ * The route resolves the model through the provider registry, so callers only
+ * need the model's ID and owning provider, plus the provider's API key if one
+ * is stored in Settings. Models of custom endpoints also send the endpoint,
+ * which only the browser knows about.
+ */
+
+import { getApiKey } from '@/lib/api-keys'
+import { getEndpointForModel } from '@/lib/custom-endpoints'
+import { readCompletionStream } from '@/lib/providers/streaming'
+import { CompletionChunk, CompletionParams, CompletionRequest, CompletionResponse, ModelMetadata, ProviderError, ProviderName } from '@/lib/providers/types'
+
+function postCompletion(model: ModelMetadata, params: CompletionParams, signal?: AbortSignal): Promise<Response> {
+  const body: CompletionRequest = {
+    ...params,
+    provider: model.provider as ProviderName,
+    modelId: model.id,
+    // A key stored in Settings takes precedence over the server's
+    apiKey: model.provider === 'custom' ? undefined : getApiKey(model.provider) || undefined,
+    endpoint: model.provider === 'custom' ? getEndpointForModel(model) : undefined,
+  }
+
+  return fetch('/api/complete', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  })
+}
+
+/**
+ * Throw the route's structured error as a `ProviderError`
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  const body = await response.json().catch(() => ({}))
+  if (body.error?.code) {
+    throw ProviderError.fromJSON(body.error)
+  }
+  throw new ProviderError(`API request failed with status ${response.status}`, 'unknown', response.status)
+}
+
+/**
+ * Run a completion and wait for the full response
+ */
+export async function requestCompletion(model: ModelMetadata, params: CompletionParams, signal?: AbortSignal): Promise<CompletionResponse> {
+  const response = await postCompletion(model, { ...params, stream: false }, signal)
+  if (!response.ok) {
+    await throwResponseError(response)
+  }
+  return response.json()
+}
+
+/**
+ * Run a completion, streaming tokens when the model supports it. Models
+ * without streaming support yield their whole response as a single chunk.
+ * Aborting `signal` cancels the request on the server as well.
+ */
+export async function* streamCompletion(model: ModelMetadata, params: CompletionParams, signal?: AbortSignal): AsyncGenerator<CompletionChunk> {
+  if (!model.supportsStreaming) {
+    const response = await requestCompletion(model, params, signal)
+    yield { type: 'delta', content: response.content }
+    yield { type: 'done', response }
+    return
+  }
+
+  const response = await postCompletion(model, { ...params, stream: true }, signal)
+  if (!response.ok) {
+    await throwResponseError(response)
+  }
+
+  yield* readCompletionStream(response)
+}
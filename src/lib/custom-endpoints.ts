@@ -0,0 +1,156 @@
+"use client"
+
+/**
+ * Custom Endpoint Management
+ *
+ * OpenAI-compatible servers (vLLM, llama.cpp, Ollama, ...) registered in
+ * Settings. Like API keys they are stored in localStorage, and each request
+ * to one of their models sends the endpoint along to /api/complete.
+ */
+
+import { CustomEndpoint, ModelMetadata } from '@/lib/providers'
+import { getCustomEndpointModels, parseCustomModelId } from '@/lib/providers/custom-models'
+
+const STORAGE_KEY = 'promptmodel_custom_endpoints'
+
+/**
+ * Get all registered endpoints
+ */
+export function getCustomEndpoints(): CustomEndpoint[] {
+  if (typeof window === 'undefined') {
+    return []
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading custom endpoints:', error)
+    return []
+  }
+}
+
+function storeCustomEndpoints(endpoints: CustomEndpoint[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(endpoints))
+}
+
+/**
+ * Add an endpoint, or replace the endpoint with the same ID
+ */
+export function saveCustomEndpoint(endpoint: CustomEndpoint): void {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  try {
+    const endpoints = getCustomEndpoints()
+    const index = endpoints.findIndex(e => e.id === endpoint.id)
+    if (index === -1) {
+      endpoints.push(endpoint)
+    } else {
+      endpoints[index] = endpoint
+    }
+    storeCustomEndpoints(endpoints)
+  } catch (error) {
+    console.error('Error saving custom endpoint:', error)
+    throw new Error('Failed to save custom endpoint')
+  }
+}
+
+/**
+ * Remove an endpoint by ID
+ */
+export function removeCustomEndpoint(id: string): void {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  try {
+    storeCustomEndpoints(getCustomEndpoints().filter(e => e.id !== id))
+  } catch (error) {
+    console.error('Error removing custom endpoint:', error)
+    throw new Error('Failed to remove custom endpoint')
+  }
+}
+
+/**
+ * An empty endpoint with a fresh ID, for the Settings form
+ */
+export function createCustomEndpoint(): CustomEndpoint {
+  return {
+    id: `ep_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    baseUrl: '',
+    models: []
+  }
+}
+
+/**
+ * Problems that keep an endpoint from being saved
+ */
+export function validateCustomEndpoint(endpoint: CustomEndpoint): string[] {
+  const issues: string[] = []
+
+  if (!endpoint.name.trim()) {
+    issues.push('Name is required')
+  }
+  try {
+    const { protocol } = new URL(endpoint.baseUrl)
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      issues.push('Base URL must start with http:// or https://')
+    }
+  } catch {
+    issues.push('Base URL must be a valid URL, e.g. http://localhost:8000/v1')
+  }
+
+  if (endpoint.models.length === 0) {
+    issues.push('Add at least one model')
+  }
+  const ids = endpoint.models.map(model => model.id.trim())
+  if (ids.some(id => !id)) {
+    issues.push('Every model needs a model ID')
+  }
+  if (new Set(ids).size !== ids.length) {
+    issues.push('Model IDs must be unique')
+  }
+  if (endpoint.models.some(model => !(model.maxTokens > 0))) {
+    issues.push('Context window must be a positive number of tokens')
+  }
+  if (endpoint.models.some(model => model.inputCostPer1kTokens < 0 || model.outputCostPer1kTokens < 0)) {
+    issues.push('Prices cannot be negative')
+  }
+
+  return issues
+}
+
+/**
+ * Parse `Name: value` lines into request headers
+ */
+export function parseHeaders(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined
+}
+
+export function formatHeaders(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+}
+
+/**
+ * Models of every registered endpoint, for the model selector
+ */
+export function getCustomModels(): ModelMetadata[] {
+  return getCustomEndpoints().flatMap(getCustomEndpointModels)
+}
+
+/**
+ * The endpoint serving a custom model
+ */
+export function getEndpointForModel(model: ModelMetadata): CustomEndpoint | undefined {
+  const { endpointId } = parseCustomModelId(model.id)
+  return getCustomEndpoints().find(e => e.id === endpointId)
+}
@@ -0,0 +1,102 @@
+/**
+ * Custom JavaScript evaluators, run in a Web Worker in the browser
+ *
+ * A script defines `evaluate(input, output, context)` and returns
+ * `{ score, pass, explanation }`, each optional. A bare number is taken as
+ * the score and a boolean as pass/fail. It may be async.
+ */
+
+import { runInWorker } from '@/lib/worker-sandbox'
+
+/** How long a script may run before its worker is terminated */
+export const EVAL_TIME_LIMIT_MS = 5000
+
+export const DEFAULT_CUSTOM_EVAL_SCRIPT = `// input: the rendered prompt; output: the model's response
+// context: { expected, variables, model, metadata }
+function evaluate(input, output, context) {
+  const pass = context.expected ? output.includes(context.expected) : output.length > 0
+  return {
+    score: pass ? 1 : 0,
+    pass,
+    explanation: pass ? 'Found the expected output' : 'Expected output is missing'
+  }
+}`
+
+/** What a script can see besides the prompt and response */
+export interface CustomEvalContext {
+  /** The test case's expected output */
+  expected?: string
+  /** The test case's template variables */
+  variables: Record<string, string>
+  model: { id: string; name: string; provider: string }
+  /** Usage and other details of the response */
+  metadata: Record<string, unknown>
+}
+
+export interface CustomEvalRequest {
+  script: string
+  input: string
+  output: string
+  context: CustomEvalContext
+}
+
+export interface CustomEvalResult {
+  score?: number
+  pass?: boolean
+  explanation?: string
+}
+
+/** Result of a script, or the error that stopped it, with anything it logged */
+export type CustomEvalOutcome =
+  | { ok: true; result: CustomEvalResult; logs: string[] }
+  | { ok: false; error: string; logs: string[] }
+
+/**
+ * Read a script's return value as a result, or describe why it is not one
+ */
+export function toCustomEvalResult(value: unknown): CustomEvalResult | string {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { score: value } : 'evaluate returned a score that is not a finite number'
+  }
+  if (typeof value === 'boolean') {
+    return { pass: value }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'evaluate must return { score, pass, explanation }, a number or a boolean'
+  }
+
+  const { score, pass, explanation } = value as Record<string, unknown>
+  if (score !== undefined && (typeof score !== 'number' || !Number.isFinite(score))) {
+    return 'score must be a finite number'
+  }
+  if (pass !== undefined && typeof pass !== 'boolean') {
+    return 'pass must be a boolean'
+  }
+  if (explanation !== undefined && typeof explanation !== 'string') {
+    return 'explanation must be a string'
+  }
+  return { score, pass, explanation }
+}
+
+/**
+ * Run a custom evaluator in a fresh worker. Syntax errors, exceptions and
+ * time-outs come back as failed outcomes.
+ */
+export async function runCustomEval({ script, input, output, context }: CustomEvalRequest): Promise<CustomEvalOutcome> {
+  const outcome = await runInWorker({
+    params: ['input', 'output', 'context'],
+    body: `${script}
+if (typeof evaluate !== 'function') {
+  throw new Error('The script must define a function named evaluate')
+}
+return evaluate(input, output, context)`,
+    args: [input, output, context],
+    timeoutMs: EVAL_TIME_LIMIT_MS,
+  })
+  if (!outcome.ok) return outcome
+
+  const result = toCustomEvalResult(outcome.value)
+  return typeof result === 'string'
+    ? { ok: false, error: result, logs: outcome.logs }
+    : { ok: true, result, logs: outcome.logs }
+}
@@ -0,0 +1,251 @@
+/**
+ * Dataset import for test cases
+ *
+ * Parses CSV and JSONL files into records and maps their columns onto test
+ * cases. Nothing here touches the DOM, so server code and headless runs can
+ * load the same files:
+ *
+ *   const dataset = parseDataset(await fs.readFile(path, 'utf8'), detectDatasetFormat(path))
+ *   const testCases = toTestCases(dataset, guessColumnMapping(dataset.columns))
+ */
+
+import { TestCase, createTestCase } from '@/lib/test-cases'
+
+export type DatasetFormat = 'csv' | 'jsonl'
+
+/** A single row, keyed by column name */
+export type DatasetRecord = Record<string, string>
+
+export interface ParsedDataset {
+  format: DatasetFormat
+  /** Column names in the order they first appear */
+  columns: string[]
+  rows: DatasetRecord[]
+}
+
+/**
+ * Which dataset columns feed which test case fields
+ */
+export interface ColumnMapping {
+  prompt: string
+  name?: string
+  systemMessage?: string
+  expectedOutput?: string
+  /** Columns passed through as template variables */
+  variables: string[]
+}
+
+/** Problem found with a row; `row` is 1-based, or 0 for problems with the mapping itself */
+export interface DatasetIssue {
+  row: number
+  message: string
+}
+
+export class DatasetParseError extends Error {
+  /** 1-based line number the error was found on */
+  line?: number
+
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message)
+    this.name = 'DatasetParseError'
+    this.line = line
+  }
+}
+
+/**
+ * Pick the format from the file extension, falling back to sniffing the content
+ */
+export function detectDatasetFormat(filename: string, content = ''): DatasetFormat {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl'
+  if (extension === 'csv') return 'csv'
+  return content.trimStart().startsWith('{') ? 'jsonl' : 'csv'
+}
+
+/**
+ * Parse CSV (RFC 4180): the first row is the header, fields may be quoted,
+ * and quoted fields may contain commas, newlines and doubled quotes
+ */
+export function parseCSV(content: string): ParsedDataset {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let quoteLine = 0
+
+  const text = content.replace(/^\uFEFF/, '')
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true
+      quoteLine = line
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+      line++
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new DatasetParseError('Unterminated quoted field', quoteLine)
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Skip blank lines
+  const nonEmpty = records.filter(r => r.length > 1 || r[0].trim() !== '')
+  if (nonEmpty.length === 0) {
+    throw new DatasetParseError('File is empty')
+  }
+
+  const columns = nonEmpty[0].map(c => c.trim())
+  const duplicate = columns.find((c, i) => columns.indexOf(c) !== i)
+  if (duplicate !== undefined) {
+    throw new DatasetParseError(`Duplicate column "${duplicate}"`, 1)
+  }
+
+  const rows = nonEmpty.slice(1).map(values =>
+    Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']))
+  )
+
+  return { format: 'csv', columns, rows }
+}
+
+/**
+ * Parse JSONL: one JSON object per line. Non-string values are stored as JSON.
+ */
+export function parseJSONL(content: string): ParsedDataset {
+  const columns: string[] = []
+  const rows: DatasetRecord[] = []
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) return
+
+    let value: unknown
+    try {
+      value = JSON.parse(text)
+    } catch {
+      throw new DatasetParseError('Invalid JSON', index + 1)
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new DatasetParseError('Expected a JSON object', index + 1)
+    }
+
+    const row: DatasetRecord = {}
+    for (const [key, fieldValue] of Object.entries(value)) {
+      if (!columns.includes(key)) columns.push(key)
+      row[key] = typeof fieldValue === 'string' ? fieldValue : JSON.stringify(fieldValue)
+    }
+    rows.push(row)
+  })
+
+  if (rows.length === 0) {
+    throw new DatasetParseError('File is empty')
+  }
+
+  return { format: 'jsonl', columns, rows }
+}
+
+export function parseDataset(content: string, format: DatasetFormat): ParsedDataset {
+  return format === 'jsonl' ? parseJSONL(content) : parseCSV(content)
+}
+
+const COLUMN_ALIASES: Record<'prompt' | 'name' | 'systemMessage' | 'expectedOutput', string[]> = {
+  prompt: ['prompt', 'input', 'question', 'user', 'message'],
+  name: ['name', 'id', 'title'],
+  systemMessage: ['system', 'system_message', 'systemmessage', 'system_prompt'],
+  expectedOutput: ['expected', 'expected_output', 'expectedoutput', 'output', 'answer', 'reference', 'ideal'],
+}
+
+/**
+ * Guess a column mapping from common column names. Columns that are not
+ * mapped to a field become template variables.
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const find = (aliases: string[]) =>
+    columns.find(column => aliases.includes(column.toLowerCase().replace(/[\s-]/g, '_')))
+
+  const prompt = find(COLUMN_ALIASES.prompt) ?? columns[0] ?? ''
+  const name = find(COLUMN_ALIASES.name)
+  const systemMessage = find(COLUMN_ALIASES.systemMessage)
+  const expectedOutput = find(COLUMN_ALIASES.expectedOutput)
+  const mapped = [prompt, name, systemMessage, expectedOutput]
+
+  return {
+    prompt,
+    name,
+    systemMessage,
+    expectedOutput,
+    variables: columns.filter(column => !mapped.includes(column)),
+  }
+}
+
+/**
+ * Check every row against the mapping
+ */
+export function validateDataset(dataset: ParsedDataset, mapping: ColumnMapping): DatasetIssue[] {
+  const issues: DatasetIssue[] = []
+  const mappedColumns = [mapping.prompt, mapping.name, mapping.systemMessage, mapping.expectedOutput, ...mapping.variables]
+
+  for (const column of mappedColumns) {
+    if (column && !dataset.columns.includes(column)) {
+      issues.push({ row: 0, message: `Column "${column}" does not exist` })
+    }
+  }
+  if (issues.length > 0) return issues
+
+  dataset.rows.forEach((row, index) => {
+    if (!row[mapping.prompt]?.trim()) {
+      issues.push({ row: index + 1, message: `Empty prompt in column "${mapping.prompt}"` })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Turn dataset rows into test cases. Rows without a prompt are skipped;
+ * names continue the numbering of `existing` when no name column is mapped.
+ */
+export function toTestCases(dataset: ParsedDataset, mapping: ColumnMapping, existing: TestCase[] = []): TestCase[] {
+  const testCases: TestCase[] = []
+
+  for (const row of dataset.rows) {
+    const prompt = row[mapping.prompt]
+    if (!prompt?.trim()) continue
+
+    const fields: Partial<Omit<TestCase, 'id'>> = { prompt }
+    if (mapping.name && row[mapping.name]) fields.name = row[mapping.name]
+    if (mapping.systemMessage && row[mapping.systemMessage]) fields.systemMessage = row[mapping.systemMessage]
+    if (mapping.expectedOutput && row[mapping.expectedOutput]) fields.expectedOutput = row[mapping.expectedOutput]
+    if (mapping.variables.length > 0) {
+      fields.variables = Object.fromEntries(mapping.variables.map(column => [column, row[column] ?? '']))
+    }
+
+    testCases.push(createTestCase([...existing, ...testCases], fields))
+  }
+
+  return testCases
+}
@@ -0,0 +1,43 @@
+"use client"
+
+/**
+ * Image attachments for prompts, read from uploaded or pasted files
+ */
+
+import { ImageInput, ImageMediaType } from '@/lib/providers'
+import { IMAGE_MEDIA_TYPES } from '@/lib/providers/messages'
+
+/** Largest image every vision provider accepts (Anthropic's limit) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+export function isSupportedImage(file: File): boolean {
+  return IMAGE_MEDIA_TYPES.includes(file.type as ImageMediaType)
+}
+
+/**
+ * Read a file into a base64 image attachment, rejecting unsupported formats
+ * and files over `MAX_IMAGE_BYTES`
+ */
+export function readImageFile(file: File): Promise<ImageInput> {
+  if (!isSupportedImage(file)) {
+    return Promise.reject(new Error(`${file.name || 'Image'} is not a PNG, JPEG, GIF or WebP image`))
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return Promise.reject(new Error(`${file.name || 'Image'} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`))
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      // Drop the `data:<type>;base64,` prefix
+      const dataUrl = reader.result as string
+      resolve({
+        mediaType: file.type as ImageMediaType,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        name: file.name || undefined
+      })
+    }
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name || 'image'}`))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,240 @@
+/**
+ * Output formats for LLM judges, and reading the verdict out of what the
+ * judge wrote
+ *
+ * Judges rarely answer in exactly the requested shape, so extraction looks
+ * for the labeled forms first ("Score: 8/10", "Verdict: PASS", "Grade: B+")
+ * and only then for bare ones, and fails rather than guesses when the text
+ * is ambiguous or out of range.
+ */
+
+import { parseJson } from '@/lib/providers/structured-output'
+
+export type JudgeOutputFormat =
+  /** A number from `min` to `max`; passes at or above `passThreshold` if set */
+  | { type: 'scale'; min: number; max: number; passThreshold?: number }
+  | { type: 'pass-fail' }
+  /** A to F, with + and -; scored as grade points from 0 (F) to 4.3 (A+) */
+  | { type: 'letter' }
+  /** A JSON object with the score, and optionally the verdict and explanation, in the named fields */
+  | { type: 'json'; scoreField: string; passField?: string; explanationField?: string; passThreshold?: number }
+
+export type JudgeOutputType = JudgeOutputFormat['type']
+
+export const JUDGE_OUTPUT_TYPES: { type: JudgeOutputType; label: string }[] = [
+  { type: 'scale', label: 'Numeric scale' },
+  { type: 'pass-fail', label: 'Pass / fail' },
+  { type: 'letter', label: 'Letter grade' },
+  { type: 'json', label: 'JSON fields' },
+]
+
+/** Judges configured before output formats score from 1 to 10 */
+export const DEFAULT_JUDGE_OUTPUT_FORMAT: JudgeOutputFormat = { type: 'scale', min: 1, max: 10 }
+
+export interface JudgeVerdict {
+  /** Numeric score, comparable across cells of the same judge */
+  score: number
+  pass?: boolean
+  /** The score as the judge gave it, e.g. `8/10` or `B+` */
+  scoreLabel: string
+  explanation: string
+}
+
+export type JudgeParseResult =
+  | { ok: true; verdict: JudgeVerdict }
+  | { ok: false; error: string }
+
+const GRADE_POINTS: Record<string, number> = {
+  'A+': 4.3, 'A': 4, 'A-': 3.7,
+  'B+': 3.3, 'B': 3, 'B-': 2.7,
+  'C+': 2.3, 'C': 2, 'C-': 1.7,
+  'D+': 1.3, 'D': 1, 'D-': 0.7,
+  'F': 0,
+}
+
+const NUMBER = String.raw`(-?\d+(?:\.\d+)?)`
+// Markdown emphasis, punctuation and the "is" or "of" judges put between a
+// label and its value: "Score: 8", "**Score** - 8", "The score is 8", "a rating of 8"
+const LABEL_GAP = String.raw`\**\s*(?:(?:is|of)\s+)?[:=\-–]?\s*\**\s*`
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * A new output format of a type, with its default options
+ */
+export function createJudgeOutputFormat(type: JudgeOutputType): JudgeOutputFormat {
+  switch (type) {
+    case 'scale':
+      return DEFAULT_JUDGE_OUTPUT_FORMAT
+    case 'pass-fail':
+    case 'letter':
+      return { type }
+    case 'json':
+      return { type, scoreField: 'score', passField: 'pass', explanationField: 'explanation' }
+  }
+}
+
+/**
+ * Problem with an output format's options, or null if it can be used
+ */
+export function validateJudgeOutputFormat(format: JudgeOutputFormat): string | null {
+  if (format.type === 'scale') {
+    if (!Number.isFinite(format.min) || !Number.isFinite(format.max) || format.min >= format.max) {
+      return 'The scale minimum must be below its maximum'
+    }
+    if (format.passThreshold !== undefined && (format.passThreshold < format.min || format.passThreshold > format.max)) {
+      return 'The pass threshold must be on the scale'
+    }
+  }
+  if (format.type === 'json' && !format.scoreField.trim()) {
+    return 'Name the field that holds the score'
+  }
+  return null
+}
+
+/**
+ * Instruction added to the judge prompt so the verdict can be read back
+ */
+export function judgeFormatInstructions(format: JudgeOutputFormat): string {
+  switch (format.type) {
+    case 'scale':
+      return `End your evaluation with a line of the form "Score: N/${format.max}", where N is a number from ${format.min} to ${format.max}.`
+    case 'pass-fail':
+      return 'End your evaluation with a line of the form "Verdict: PASS" or "Verdict: FAIL".'
+    case 'letter':
+      return 'End your evaluation with a line of the form "Grade: X", where X is a letter grade from A to F, optionally with + or -.'
+    case 'json': {
+      const fields = [
+        `"${format.scoreField}" (a number)`,
+        ...(format.passField ? [`"${format.passField}" (true or false)`] : []),
+        ...(format.explanationField ? [`"${format.explanationField}" (a string)`] : []),
+      ]
+      return `Respond with only a JSON object with the fields ${fields.join(', ')}.`
+    }
+  }
+}
+
+/**
+ * Every match of a pattern, last one last
+ */
+function matchAll(text: string, pattern: string, flags = 'gi'): RegExpExecArray[] {
+  return Array.from(text.matchAll(new RegExp(pattern, flags)))
+}
+
+function parseScale(text: string, format: Extract<JudgeOutputFormat, { type: 'scale' }>): JudgeParseResult {
+  const { min, max } = format
+  // Score: 8/10, **Rating**: 8.5, Final score - 7 out of 10, I'd rate it a 7
+  const labeled = matchAll(
+    text,
+    String.raw`\b(?:score|rating|rated|rate\s+(?:it|this(?:\s+response)?))${LABEL_GAP}(?:an?\s+)?${NUMBER}`
+  )
+  // 8/10 or 8 out of 10, only against this scale's maximum
+  const fractions = matchAll(text, String.raw`${NUMBER}\s*(?:\/|out of)\s*${escapeRegExp(String(max))}(?![\d.]*\d)`)
+  // A number alone on a line
+  const bare = matchAll(text, String.raw`^\s*\**${NUMBER}\**\s*$`, 'gm')
+
+  // A judge that gives more than one score usually ends with its final answer
+  const match = [labeled, fractions, bare].map(matches => matches[matches.length - 1]).find(Boolean)
+  if (!match) {
+    return { ok: false, error: `No score from ${min} to ${max} found in the judge's output` }
+  }
+  const score = Number(match[1])
+  if (score < min || score > max) {
+    return { ok: false, error: `Score ${score} is outside ${min}-${max}` }
+  }
+
+  return {
+    ok: true,
+    verdict: {
+      score,
+      pass: format.passThreshold !== undefined ? score >= format.passThreshold : undefined,
+      scoreLabel: `${score}/${max}`,
+      explanation: text.trim(),
+    },
+  }
+}
+
+function parsePassFail(text: string): JudgeParseResult {
+  const labeled = matchAll(text, String.raw`\b(?:verdict|result|decision|outcome)${LABEL_GAP}(pass(?:ed)?|fail(?:ed)?)\b`)
+  const found = labeled.length > 0
+    ? [labeled[labeled.length - 1][1]]
+    : matchAll(text, String.raw`\b(PASS(?:ED)?|FAIL(?:ED)?)\b`, 'g').map(match => match[1])
+
+  const verdicts = new Set(found.map(word => word.toLowerCase().startsWith('pass')))
+  if (verdicts.size === 0) {
+    return { ok: false, error: 'No PASS or FAIL verdict found in the judge\'s output' }
+  }
+  if (verdicts.size > 1) {
+    return { ok: false, error: 'The judge\'s output says both PASS and FAIL' }
+  }
+
+  const pass = verdicts.has(true)
+  return { ok: true, verdict: { score: pass ? 1 : 0, pass, scoreLabel: pass ? 'PASS' : 'FAIL', explanation: text.trim() } }
+}
+
+function parseLetter(text: string): JudgeParseResult {
+  // Grade: B+, or a grade alone on a line
+  const labeled = matchAll(text, String.raw`\b[Gg]rade${LABEL_GAP}([A-F][+-]?)(?![\w+-])`, 'g')
+  const bare = matchAll(text, String.raw`^\s*\**([A-F][+-]?)\**\s*$`, 'gm')
+  const match = [labeled, bare].map(matches => matches[matches.length - 1]).find(Boolean)
+  if (!match || GRADE_POINTS[match[1]] === undefined) {
+    return { ok: false, error: 'No letter grade from A to F found in the judge\'s output' }
+  }
+  return { ok: true, verdict: { score: GRADE_POINTS[match[1]], scoreLabel: match[1], explanation: text.trim() } }
+}
+
+function parseJsonVerdict(text: string, format: Extract<JudgeOutputFormat, { type: 'json' }>): JudgeParseResult {
+  let { value, error } = parseJson(text)
+  // Judges often wrap the object in prose; fall back to the outermost braces
+  if (error !== undefined) {
+    const start = text.indexOf('{')
+    const end = text.lastIndexOf('}')
+    if (start !== -1 && end > start) {
+      ({ value, error } = parseJson(text.slice(start, end + 1)))
+    }
+  }
+  if (error !== undefined || typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: 'The judge\'s output has no JSON object' }
+  }
+
+  const fields = value as Record<string, unknown>
+  const rawScore = fields[format.scoreField]
+  const score = typeof rawScore === 'string' && rawScore.trim() !== '' ? Number(rawScore) : rawScore
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return { ok: false, error: `The judge's JSON has no numeric "${format.scoreField}" field` }
+  }
+
+  const rawPass = format.passField ? fields[format.passField] : undefined
+  const pass = typeof rawPass === 'boolean'
+    ? rawPass
+    : typeof rawPass === 'string' && /^(pass|fail)/i.test(rawPass)
+    ? /^pass/i.test(rawPass)
+    : format.passThreshold !== undefined ? score >= format.passThreshold : undefined
+  const explanation = format.explanationField ? fields[format.explanationField] : undefined
+
+  return {
+    ok: true,
+    verdict: {
+      score,
+      pass,
+      scoreLabel: String(score),
+      explanation: typeof explanation === 'string' ? explanation : text.trim(),
+    },
+  }
+}
+
+/**
+ * Read the verdict out of a judge's output
+ */
+export function parseJudgeOutput(text: string, format: JudgeOutputFormat = DEFAULT_JUDGE_OUTPUT_FORMAT): JudgeParseResult {
+  switch (format.type) {
+    case 'scale':
+      return parseScale(text, format)
+    case 'pass-fail':
+      return parsePassFail(text)
+    case 'letter':
+      return parseLetter(text)
+    case 'json':
+      return parseJsonVerdict(text, format)
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Model variants: the columns of the comparison grid
+ *
+ * A variant is a model plus its own sampling parameters and system message,
+ * so the same model can be compared against itself, e.g. at temperature 0 and 1.
+ */
+
+import { ModelMetadata } from '@/lib/providers'
+import { SamplingParams, hasOverrides } from '@/lib/run-settings'
+
+export interface ModelVariant {
+  /** Unique column ID; several variants may share a model */
+  id: string
+  model: ModelMetadata
+  /** Column label, defaults to the model name */
+  label?: string
+  /** Sampling parameters overriding the run defaults */
+  params: SamplingParams
+  /** System message overriding the test case and run defaults */
+  systemMessage?: string
+}
+
+function generateId(): string {
+  return `v_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createVariant(model: ModelMetadata, fields: Partial<Omit<ModelVariant, 'id' | 'model'>> = {}): ModelVariant {
+  return {
+    id: generateId(),
+    model,
+    params: {},
+    ...fields
+  }
+}
+
+/**
+ * Copy a variant and insert the copy directly after the original, labelled
+ * with the next free number for its model
+ */
+export function duplicateVariant(variants: ModelVariant[], id: string): ModelVariant[] {
+  const index = variants.findIndex(v => v.id === id)
+  if (index === -1) return variants
+
+  const original = variants[index]
+  const count = variants.filter(v => v.model.id === original.model.id).length
+  const copy: ModelVariant = {
+    ...original,
+    id: generateId(),
+    label: `${original.model.name} #${count + 1}`,
+    params: { ...original.params }
+  }
+  return [...variants.slice(0, index + 1), copy, ...variants.slice(index + 1)]
+}
+
+export function getVariantLabel(variant: ModelVariant): string {
+  return variant.label?.trim() || variant.model.name
+}
+
+/**
+ * Short summary of what a variant changes, e.g. `t=0 · max=512 · system`
+ */
+export function describeVariant(variant: ModelVariant): string {
+  const { temperature, topP, maxTokens, stopSequences, ollamaOptions } = variant.params
+  const parts: string[] = []
+
+  if (temperature !== undefined) parts.push(`t=${temperature}`)
+  if (topP !== undefined) parts.push(`top_p=${topP}`)
+  if (maxTokens !== undefined) parts.push(`max=${maxTokens}`)
+  if (stopSequences?.length) parts.push(`stop×${stopSequences.length}`)
+  if (ollamaOptions?.numCtx !== undefined) parts.push(`ctx=${ollamaOptions.numCtx}`)
+  if (ollamaOptions?.seed !== undefined) parts.push(`seed=${ollamaOptions.seed}`)
+  if (ollamaOptions?.repeatPenalty !== undefined) parts.push(`rep=${ollamaOptions.repeatPenalty}`)
+  if (variant.systemMessage?.trim()) parts.push('system')
+
+  return parts.join(' · ')
+}
+
+/**
+ * Whether a variant differs from running its model with the defaults
+ */
+export function isCustomized(variant: ModelVariant): boolean {
+  return hasOverrides(variant.params) || !!variant.systemMessage?.trim()
+}
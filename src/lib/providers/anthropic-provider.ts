@@ -1,12 +1,75 @@
+import axios from 'axios';
 import { BaseAIProvider } from './base-provider';
+import { contentWithName, splitSystemMessages, toConversation } from './messages';
+import { parseToolArguments } from './tools';
+import { isJsonFormat, responseFormatName, responseSchema } from './structured-output';
+import { getCatalogModels } from './catalog';
+import { parseSSE, StreamUpdate } from './streaming';
+import { classifyError } from './errors';
 import {
+  ChatMessage,
   ModelMetadata,
   CompletionParams,
   CompletionResponse,
+  CompletionChunk,
+  ProviderError,
   ProviderInfo,
   ProviderName,
+  RequestOptions,
+  TokenUsage,
+  ToolCall,
 } from './types';
 
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * Map Anthropic usage to token usage. Anthropic reports cache reads and
+ * writes separately from `input_tokens`, so they are added back into the total.
+ */
+function toTokenUsage(usage: any): TokenUsage {
+  const cachedInputTokens = usage?.cache_read_input_tokens || 0;
+  return {
+    inputTokens: (usage?.input_tokens || 0) + cachedInputTokens + (usage?.cache_creation_input_tokens || 0),
+    outputTokens: usage?.output_tokens || 0,
+    cachedInputTokens,
+  };
+}
+
+/**
+ * Content of a turn in the Messages API: images become base64 `image` blocks
+ * ahead of the text, tool calls `tool_use` blocks and tool results
+ * `tool_result` blocks
+ */
+function toAnthropicContent(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+  }
+  if (message.toolCalls?.length) {
+    return [
+      ...(message.content ? [{ type: 'text', text: contentWithName(message) }] : []),
+      ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call) })),
+    ];
+  }
+  if (message.images?.length) {
+    return [
+      ...message.images.map(image => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mediaType, data: image.data },
+      })),
+      { type: 'text', text: contentWithName(message) },
+    ];
+  }
+  return contentWithName(message);
+}
+
+function toToolCalls(content: any[] | undefined, outputTool?: string): ToolCall[] | undefined {
+  const calls = (content || []).filter(block => block.type === 'tool_use' && block.name !== outputTool);
+  return calls.length > 0
+    ? calls.map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) }))
+    : undefined;
+}
+
 /**
  * Anthropic AI provider implementation
  * Supports Claude models including Sonnet, Opus, and Haiku
@@ -18,56 +81,11 @@ export class AnthropicProvider extends BaseAIProvider {
     description: 'Claude AI models by Anthropic, known for their helpfulness, harmlessness, and honesty.',
     website: 'https://www.anthropic.com',
     requiresApiKey: true,
+    apiKeyEnvVar: 'ANTHROPIC_API_KEY',
     models: [], // Will be populated below
   };
 
-  readonly models: ModelMetadata[] = [
-    {
-      id: 'claude-3-5-sonnet-20241022',
-      name: 'Claude 3.5 Sonnet',
-      provider: 'anthropic',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.003,
-      outputCostPer1kTokens: 0.015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-    {
-      id: 'claude-3-opus-20240229',
-      name: 'Claude 3 Opus',
-      provider: 'anthropic',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.015,
-      outputCostPer1kTokens: 0.075,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-    {
-      id: 'claude-3-haiku-20240307',
-      name: 'Claude 3 Haiku',
-      provider: 'anthropic',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.00025,
-      outputCostPer1kTokens: 0.00125,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-  ];
+  readonly models: ModelMetadata[] = getCatalogModels('anthropic');
 
   constructor() {
     super();
@@ -75,69 +93,158 @@ export class AnthropicProvider extends BaseAIProvider {
     this.info.models = this.models;
   }
 
-  async complete(modelId: string, params: CompletionParams): Promise<CompletionResponse> {
-    if (!this.isConfigured() && !process.env.ANTHROPIC_API_KEY && !process.env.OPENROUTER_API_KEY) {
-      throw this.createError('Anthropic provider is not configured. Please provide an API key.');
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: { data }, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getMessagesUrl(),
+        this.toAnthropicRequest(modelId, params),
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal }
+      ));
+
+      // A JSON response arrives as the input of a call to the output tool
+      const outputTool = isJsonFormat(params.responseFormat) ? responseFormatName(params.responseFormat) : undefined;
+      const output = (data.content || []).find((block: any) => block.type === 'tool_use' && block.name === outputTool);
+      const content = output
+        ? JSON.stringify(output.input ?? {})
+        : (data.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+      const usage = toTokenUsage(data.usage);
+
+      return {
+        content,
+        toolCalls: toToolCalls(data.content, outputTool),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
+        metadata: {
+          ...this.getMetadata(params),
+          stopReason: data.stop_reason,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
     }
+  }
 
-    const model = this.getModel(modelId);
-    if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const model = this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools, or
+    // with a JSON response format that is answered by a tool call, are not streamed
+    if (!model.supportsStreaming || params.tools?.length || isJsonFormat(params.responseFormat)) {
+      yield* super.completeStream(modelId, params, options);
+      return;
     }
 
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
     try {
-      // Make actual API call through our route handler
-      const response = await fetch('/api/complete', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          provider: 'anthropic',
-          modelId,
-          prompt: params.prompt,
-          systemMessage: params.systemMessage,
-          temperature: params.temperature,
-          maxTokens: params.maxTokens,
-          topP: params.topP,
-          apiKey: this.config.apiKey,
-          useOpenRouter: this.config.useOpenRouter
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.details || error.error || 'API request failed');
-      }
-
-      const data = await response.json();
-      
-      // Calculate cost based on model pricing
-      const cost = this.estimateCost(modelId, data.inputTokens, data.outputTokens);
-      
-      return {
-        ...data,
-        cost,
-        metadata: {
-          ...data.metadata,
-          anthropicVersion: '2023-06-01',
-          modelVersion: model.id,
-          systemMessage: params.systemMessage,
+      const { result: response, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getMessagesUrl(),
+        { ...this.toAnthropicRequest(modelId, params), stream: true },
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal, responseType: 'stream' }
+      ));
+
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        for await (const message of parseSSE(response.data)) {
+          const event = JSON.parse(message.data);
+          if (event.type === 'message_start') {
+            const { inputTokens, cachedInputTokens } = toTokenUsage(event.message?.usage);
+            yield { inputTokens, cachedInputTokens };
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            yield { content: event.delta.text };
+          } else if (event.type === 'message_delta') {
+            yield { outputTokens: event.usage?.output_tokens };
+          } else if (event.type === 'error') {
+            // Errors after the response started, e.g. overloaded_error
+            throw new ProviderError(
+              `Anthropic API error: ${event.error?.message || 'stream error'}`,
+              classifyError(undefined, event)
+            );
+          }
         }
       };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(params), streamed: true, retry }, startTime);
     } catch (error) {
-      if (error instanceof Error) {
-        throw this.createError(
-          `Anthropic API error: ${error.message}`,
-          'API_ERROR',
-          undefined,
-          { originalError: error }
-        );
-      }
-      throw error;
+      throw await this.toProviderError(error, options?.signal);
     }
   }
 
+  /**
+   * Convert parameters to the Anthropic Messages API format. System messages
+   * go in `system` and speaker names are prefixed to the turns. Tool results
+   * are user turns, with the results of parallel calls sent together.
+   *
+   * A JSON response format adds an output tool taking the response schema,
+   * which the model must call; with other tools offered it must call one of
+   * them, so it can still use them before answering.
+   */
+  private toAnthropicRequest(modelId: string, params: CompletionParams) {
+    const { temperature, maxTokens, topP, stopSequences } = this.withDefaults(params);
+    const { system, turns } = splitSystemMessages(toConversation(params));
+    const format = params.responseFormat;
+    const outputTool = isJsonFormat(format)
+      ? { name: responseFormatName(format), description: 'Give the response as this tool\'s input', input_schema: responseSchema(format) }
+      : undefined;
+    const tools = [
+      ...(params.tools || []).map(({ name, description, parameters }) => ({ name, description, input_schema: parameters })),
+      ...(outputTool ? [outputTool] : []),
+    ];
+
+    return {
+      model: modelId,
+      max_tokens: maxTokens,
+      temperature,
+      top_p: topP,
+      system,
+      stop_sequences: stopSequences,
+      messages: turns.reduce<Array<{ role: 'user' | 'assistant'; content: any }>>((messages, message) => {
+        const previous = messages[messages.length - 1];
+        if (message.role === 'tool' && previous?.content?.[0]?.type === 'tool_result') {
+          previous.content.push(...toAnthropicContent(message));
+        } else {
+          messages.push({ role: message.role === 'assistant' ? 'assistant' : 'user', content: toAnthropicContent(message) });
+        }
+        return messages;
+      }, []),
+      tools: tools.length > 0 ? tools : undefined,
+      tool_choice: outputTool
+        ? params.tools?.length ? { type: 'any' } : { type: 'tool', name: outputTool.name }
+        : undefined,
+    };
+  }
+
+  private getMessagesUrl(): string {
+    return `${this.config.baseUrl || ANTHROPIC_API_URL}/messages`;
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+  }
+
+  private getMetadata(params: CompletionParams) {
+    return {
+      provider: this.info.name,
+      timestamp: new Date().toISOString(),
+      anthropicVersion: ANTHROPIC_API_VERSION,
+      systemMessage: params.systemMessage,
+    };
+  }
+
   /**
    * Anthropic-specific method to validate the model supports the requested features
    */
@@ -161,7 +268,7 @@ export class AnthropicProvider extends BaseAIProvider {
   getRecommendedSettings(modelId: string): Partial<CompletionParams> {
     const model = this.getModel(modelId);
     if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
     }
 
     const baseSettings: Partial<CompletionParams> = {
@@ -1,13 +1,34 @@
+import axios from 'axios';
+import { accumulateStream, isAbortError, StreamUpdate } from './streaming';
+import { calculateCost } from './pricing';
+import { resolveRetryPolicy, withRetry } from './retry';
+import { classifyError } from './errors';
+import { countImages, getImageIssue } from './messages';
+import { getToolIssue } from './tools';
 import {
   ModelMetadata,
   ProviderConfig,
   CompletionParams,
   CompletionResponse,
+  CompletionChunk,
+  ErrorCode,
   ProviderError,
   ProviderName,
   ProviderInfo,
+  RequestOptions,
+  RetryInfo,
+  TokenUsage,
+  CostBreakdown,
 } from './types';
 
+/**
+ * Sampling defaults applied when a request leaves them unset
+ */
+export const DEFAULT_COMPLETION_PARAMS: Pick<CompletionParams, 'temperature' | 'maxTokens'> = {
+  temperature: 0.7,
+  maxTokens: 4096,
+};
+
 /**
  * Interface that all AI model providers must implement
  */
@@ -34,19 +55,29 @@ export interface AIProvider {
   validateConnection(): Promise<boolean>;
   
   /**
-   * Get a specific model by ID
+   * Get a specific model by ID or alias
    */
   getModel(modelId: string): ModelMetadata | undefined;
   
   /**
    * Generate a completion using the specified model
    */
-  complete(modelId: string, params: CompletionParams): Promise<CompletionResponse>;
+  complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse>;
+  
+  /**
+   * Stream a completion, yielding text deltas followed by the final response
+   */
+  completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk>;
   
   /**
    * Get the estimated cost for a completion request
    */
   estimateCost(modelId: string, inputTokens: number, outputTokens: number): number;
+  
+  /**
+   * Get the cost of a completion split by token type
+   */
+  calculateCost(modelId: string, usage: TokenUsage): CostBreakdown;
 }
 
 /**
@@ -62,7 +93,7 @@ export abstract class BaseAIProvider implements AIProvider {
     this.config = { ...config };
     
     if (this.info.requiresApiKey && !config.apiKey) {
-      throw new ProviderError(`API key is required for ${this.info.displayName}`);
+      throw this.createError(`API key is required for ${this.info.displayName}`, 'auth_failed', 401);
     }
   }
   
@@ -89,28 +120,181 @@ export abstract class BaseAIProvider implements AIProvider {
   }
   
   getModel(modelId: string): ModelMetadata | undefined {
-    return this.models.find(model => model.id === modelId);
+    return this.models.find(model => model.id === modelId || !!model.aliases?.includes(modelId));
   }
   
   estimateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+    return this.calculateCost(modelId, { inputTokens, outputTokens }).total;
+  }
+  
+  calculateCost(modelId: string, usage: TokenUsage): CostBreakdown {
     const model = this.getModel(modelId);
     if (!model) {
-      throw new ProviderError(`Model not found: ${modelId}`);
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
     }
     
-    const inputCost = (inputTokens / 1000) * model.inputCostPer1kTokens;
-    const outputCost = (outputTokens / 1000) * model.outputCostPer1kTokens;
-    
-    return inputCost + outputCost;
+    return calculateCost(model, usage);
   }
   
-  abstract complete(modelId: string, params: CompletionParams): Promise<CompletionResponse>;
+  abstract complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse>;
+  
+  /**
+   * Default streaming implementation for providers without native streaming:
+   * waits for the full completion and emits it as a single chunk
+   */
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const response = await this.complete(modelId, params, options);
+    yield { type: 'delta', content: response.content };
+    yield { type: 'done', response };
+  }
   
   /**
    * Create a standardized error object
    */
-  protected createError(message: string, code?: string, status?: number, details?: Record<string, any>): ProviderError {
-    return new ProviderError(message, code, status, details);
+  protected createError(message: string, code?: ErrorCode, status?: number, details?: Record<string, any>): ProviderError {
+    const error = new ProviderError(message, code, status, details);
+    error.provider = this.info.name;
+    return error;
+  }
+  
+  /**
+   * Look up a model, throwing if this provider does not offer it or the
+   * model cannot take the request's images or tools
+   */
+  protected requireModel(modelId: string, params?: CompletionParams): ModelMetadata {
+    const model = this.getModel(modelId);
+    if (!model) {
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
+    }
+    const issue = params
+      ? getImageIssue(model, countImages(params)) || getToolIssue(model, params.tools?.length ?? 0)
+      : null;
+    if (issue) {
+      throw this.createError(issue, 'invalid_request', 400);
+    }
+    return model;
+  }
+  
+  /**
+   * Resolve the API key for a request: the per-request key, then the
+   * configured key, then the provider's environment variable
+   */
+  protected getApiKey(options?: RequestOptions): string {
+    const envKey = this.info.apiKeyEnvVar ? process.env[this.info.apiKeyEnvVar] : undefined;
+    const apiKey = options?.apiKey || this.config.apiKey || envKey;
+    
+    if (!apiKey && this.info.requiresApiKey) {
+      throw this.createError(
+        `${this.info.displayName} API key required. Please provide an API key or set ${this.info.apiKeyEnvVar}.`,
+        'auth_failed',
+        401
+      );
+    }
+    
+    return apiKey || '';
+  }
+  
+  /**
+   * Send an upstream request, retrying rate limits, server errors and
+   * network failures according to the configured retry policy
+   */
+  protected sendWithRetry<T>(options: RequestOptions | undefined, request: () => Promise<T>): Promise<{ result: T; retry: RetryInfo }> {
+    return withRetry(request, resolveRetryPolicy(this.config.retry), options?.signal);
+  }
+  
+  /**
+   * Fill in default sampling parameters
+   */
+  protected withDefaults(params: CompletionParams): CompletionParams {
+    return {
+      ...params,
+      temperature: params.temperature ?? DEFAULT_COMPLETION_PARAMS.temperature,
+      maxTokens: params.maxTokens ?? DEFAULT_COMPLETION_PARAMS.maxTokens,
+    };
+  }
+  
+  /**
+   * Compute the cost fields of a response from its token usage
+   */
+  protected priceUsage(modelId: string, usage: TokenUsage): Pick<CompletionResponse, 'cost' | 'costBreakdown'> {
+    const costBreakdown = this.calculateCost(modelId, usage);
+    return { cost: costBreakdown.total, costBreakdown };
+  }
+  
+  /**
+   * Assemble streamed updates into completion chunks, pricing the final response
+   */
+  protected async *collectStream(
+    modelId: string,
+    updates: AsyncIterable<StreamUpdate>,
+    metadata: Record<string, any>,
+    startTime: number
+  ): AsyncGenerator<CompletionChunk> {
+    for await (const chunk of accumulateStream(updates, { model: modelId, cost: 0, metadata }, startTime)) {
+      if (chunk.type === 'done') {
+        yield {
+          type: 'done',
+          response: { ...chunk.response, ...this.priceUsage(modelId, chunk.response) },
+        };
+      } else {
+        yield chunk;
+      }
+    }
+  }
+  
+  /**
+   * Convert an error thrown by an HTTP client into a ProviderError, reading
+   * the upstream error body (including streamed bodies) for the message.
+   * The error code is classified from the status and body, and errors
+   * caused by `signal` being aborted become `aborted` errors.
+   */
+  protected async toProviderError(error: unknown, signal?: AbortSignal): Promise<ProviderError> {
+    if (error instanceof ProviderError) {
+      error.provider ??= this.info.name;
+      return error;
+    }
+    
+    if (signal?.aborted || isAbortError(error)) {
+      return this.createError(`${this.info.displayName} request aborted`, 'aborted', 499);
+    }
+    
+    let status: number | undefined;
+    let body: any;
+    
+    if (axios.isAxiosError(error) && error.response) {
+      status = error.response.status;
+      body = error.response.data;
+    } else if (typeof error === 'object' && error !== null && 'status' in error) {
+      // OpenAI SDK errors carry the status and parsed body directly
+      status = typeof error.status === 'number' ? error.status : undefined;
+      body = 'error' in error ? error.error : undefined;
+    }
+    
+    if (body && typeof body[Symbol.asyncIterator] === 'function') {
+      let text = '';
+      const decoder = new TextDecoder();
+      for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+        text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      }
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = { message: text };
+      }
+    }
+    
+    const message =
+      body?.error?.message ||
+      (typeof body?.error === 'string' ? body.error : undefined) ||
+      body?.message ||
+      (error instanceof Error ? error.message : 'Unknown API error');
+    
+    return this.createError(
+      `${this.info.displayName} API error: ${message}`,
+      classifyError(status, body, error),
+      status,
+      { response: body }
+    );
   }
   
   /**
@@ -119,7 +303,7 @@ export abstract class BaseAIProvider implements AIProvider {
   protected generateDummyResponse(modelId: string, params: CompletionParams): CompletionResponse {
     const model = this.getModel(modelId);
     if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
     }
     
     const startTime = Date.now();
@@ -0,0 +1,263 @@
+import catalogData from './catalog.json';
+import { calculateCost } from './pricing';
+import {
+  CatalogModel,
+  CompletionResponse,
+  CostBreakdown,
+  ModelCatalog,
+  ModelMetadata,
+  ModelPrice,
+  ModelStatus,
+  ProviderName,
+  TokenUsage,
+} from './types';
+
+/**
+ * Model Catalog
+ *
+ * Models, prices and lifecycle dates of the built-in providers live in
+ * catalog.json (described by catalog.schema.json) rather than in code, so a
+ * price change is a data edit. Each model keeps its price history, which lets
+ * a past run be re-costed at the prices in effect when it ran.
+ */
+
+const CATALOG_VERSION = 1;
+const CATALOG_PROVIDERS: ProviderName[] = ['anthropic', 'openai', 'openrouter', 'google'];
+const COST_FIELDS = ['inputCostPer1kTokens', 'outputCostPer1kTokens', 'cachedInputCostPer1kTokens', 'reasoningCostPer1kTokens'] as const;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+const isCost = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+function validateModel(model: unknown, label: string): string[] {
+  const issues: string[] = [];
+
+  if (!isRecord(model) || typeof model.id !== 'string' || !model.id) {
+    return [`${label}: id must be a non-empty string`];
+  }
+  if (typeof model.name !== 'string' || !model.name) {
+    issues.push(`${label}: name must be a non-empty string`);
+  }
+  if (!CATALOG_PROVIDERS.some(provider => provider === model.provider)) {
+    issues.push(`${label}: provider must be one of ${CATALOG_PROVIDERS.join(', ')}`);
+  }
+  if (model.aliases !== undefined && (!Array.isArray(model.aliases) || model.aliases.some(alias => typeof alias !== 'string' || !alias))) {
+    issues.push(`${label}: aliases must be a list of non-empty strings`);
+  }
+  if (!isCount(model.maxTokens, 1)) {
+    issues.push(`${label}: maxTokens must be a positive integer`);
+  }
+  if (typeof model.supportsStreaming !== 'boolean') {
+    issues.push(`${label}: supportsStreaming must be a boolean`);
+  }
+
+  const capabilities = model.capabilities;
+  if (!isRecord(capabilities)) {
+    issues.push(`${label}: capabilities are required`);
+  } else {
+    for (const flag of ['vision', 'functionCalling', 'systemMessages']) {
+      if (typeof capabilities[flag] !== 'boolean') {
+        issues.push(`${label}: capabilities.${flag} must be a boolean`);
+      }
+    }
+    if (capabilities.maxImages !== undefined && !isCount(capabilities.maxImages, 0)) {
+      issues.push(`${label}: capabilities.maxImages must be a non-negative integer`);
+    }
+  }
+
+  const pricing = model.pricing;
+  if (!Array.isArray(pricing) || pricing.length === 0) {
+    issues.push(`${label}: pricing must list at least one price`);
+  } else {
+    let previousFrom: string | undefined;
+    pricing.forEach((price: unknown, index: number) => {
+      const priceLabel = `${label}: pricing[${index}]`;
+      const entry = isRecord(price) ? price : {};
+      const effectiveFrom = entry.effectiveFrom;
+      if (!isDate(effectiveFrom)) {
+        issues.push(`${priceLabel}.effectiveFrom must be a YYYY-MM-DD date`);
+      } else if (previousFrom !== undefined && effectiveFrom <= previousFrom) {
+        issues.push(`${priceLabel} must take effect after the previous price`);
+      }
+      previousFrom = isDate(effectiveFrom) ? effectiveFrom : undefined;
+      for (const field of COST_FIELDS) {
+        const required = field === 'inputCostPer1kTokens' || field === 'outputCostPer1kTokens';
+        if ((required || entry[field] !== undefined) && !isCost(entry[field])) {
+          issues.push(`${priceLabel}.${field} must be a non-negative number`);
+        }
+      }
+    });
+  }
+
+  for (const field of ['deprecatedAt', 'retiresAt']) {
+    if (model[field] !== undefined && !isDate(model[field])) {
+      issues.push(`${label}: ${field} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (isDate(model.deprecatedAt) && isDate(model.retiresAt) && model.retiresAt < model.deprecatedAt) {
+    issues.push(`${label}: retiresAt must not be before deprecatedAt`);
+  }
+
+  return issues;
+}
+
+/**
+ * Problems that keep catalog data from being used, checked against the
+ * same rules as catalog.schema.json plus uniqueness of IDs and aliases
+ */
+export function validateCatalog(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ['Catalog must be an object'];
+  }
+
+  const issues: string[] = [];
+  if (data.version !== CATALOG_VERSION) {
+    issues.push(`Unsupported catalog version: ${data.version} (expected ${CATALOG_VERSION})`);
+  }
+  if (!isDate(data.updatedAt)) {
+    issues.push('updatedAt must be a YYYY-MM-DD date');
+  }
+  if (!Array.isArray(data.models)) {
+    return [...issues, 'models must be a list'];
+  }
+
+  // IDs and aliases share one namespace per provider
+  const names = new Map<string, string>();
+  data.models.forEach((model: unknown, index: number) => {
+    const id = isRecord(model) && typeof model.id === 'string' && model.id ? model.id : undefined;
+    const label = id ? `models[${index}] (${id})` : `models[${index}]`;
+    const modelIssues = validateModel(model, label);
+    issues.push(...modelIssues);
+    if (modelIssues.length > 0 || !isRecord(model) || !id) return;
+
+    const aliases = Array.isArray(model.aliases) ? model.aliases : [];
+    for (const name of [id, ...aliases]) {
+      const key = `${model.provider}:${name}`;
+      const owner = names.get(key);
+      if (owner) {
+        issues.push(`${label}: ${name} is already used by ${owner}`);
+      } else {
+        names.set(key, id);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate catalog data, throwing with every problem found
+ */
+export function parseCatalog(data: unknown): ModelCatalog {
+  const issues = validateCatalog(data);
+  if (issues.length > 0) {
+    throw new Error(`Invalid model catalog:\n- ${issues.join('\n- ')}`);
+  }
+  return data as ModelCatalog;
+}
+
+/** The bundled catalog, validated when this module loads */
+export const modelCatalog: ModelCatalog = parseCatalog(catalogData);
+
+const toTime = (at: Date | string): number => new Date(at).getTime();
+
+/**
+ * The price in effect at a given time. Times before the first entry use the
+ * earliest known price.
+ */
+export function getPriceAt(model: CatalogModel, at: Date | string = new Date()): ModelPrice {
+  const time = toTime(at);
+  let price = model.pricing[0];
+  for (const entry of model.pricing) {
+    if (toTime(entry.effectiveFrom) <= time) {
+      price = entry;
+    }
+  }
+  return price;
+}
+
+/**
+ * Look up a catalog model by ID or alias, optionally within one provider
+ */
+export function findCatalogModel(modelId: string, provider?: ProviderName): CatalogModel | undefined {
+  return modelCatalog.models.find(model =>
+    (!provider || model.provider === provider) &&
+    (model.id === modelId || !!model.aliases?.includes(modelId))
+  );
+}
+
+/**
+ * Metadata of a catalog model, priced at a given time
+ */
+export function toModelMetadata(model: CatalogModel, at: Date | string = new Date()): ModelMetadata {
+  const price = getPriceAt(model, at);
+  const metadata: ModelMetadata & { pricing?: ModelPrice[] } = {
+    ...model,
+    inputCostPer1kTokens: price.inputCostPer1kTokens,
+    outputCostPer1kTokens: price.outputCostPer1kTokens,
+    cachedInputCostPer1kTokens: price.cachedInputCostPer1kTokens,
+    reasoningCostPer1kTokens: price.reasoningCostPer1kTokens,
+  };
+  delete metadata.pricing;
+  return metadata;
+}
+
+/**
+ * A provider's catalog models at their current prices
+ */
+export function getCatalogModels(provider: ProviderName): ModelMetadata[] {
+  return modelCatalog.models
+    .filter(model => model.provider === provider)
+    .map(model => toModelMetadata(model));
+}
+
+/**
+ * Where a model is in its lifecycle at a given time
+ */
+export function getModelStatus(
+  model: Pick<ModelMetadata, 'deprecatedAt' | 'retiresAt'>,
+  at: Date | string = new Date()
+): ModelStatus {
+  const time = toTime(at);
+  if (model.retiresAt && toTime(model.retiresAt) <= time) return 'retired';
+  if (model.deprecatedAt && toTime(model.deprecatedAt) <= time) return 'deprecated';
+  return 'active';
+}
+
+/**
+ * Price token usage at the rates in effect at a given time, or undefined if
+ * the model is not in the catalog
+ */
+export function recostUsage(
+  modelId: string,
+  usage: TokenUsage,
+  at: Date | string,
+  provider?: ProviderName
+): CostBreakdown | undefined {
+  const model = findCatalogModel(modelId, provider);
+  return model ? calculateCost(toModelMetadata(model, at), usage) : undefined;
+}
+
+/**
+ * Re-cost a past response at the prices in effect when it ran, as recorded
+ * in `metadata.timestamp`. Responses of models outside the catalog, or
+ * without a timestamp, are returned unchanged.
+ */
+export function recostResponse(response: CompletionResponse, provider?: ProviderName): CompletionResponse {
+  const timestamp = response.metadata?.timestamp;
+  if (!timestamp) {
+    return response;
+  }
+
+  const costBreakdown = recostUsage(response.model, response, timestamp, provider ?? response.metadata?.provider);
+  return costBreakdown ? { ...response, cost: costBreakdown.total, costBreakdown } : response;
+}
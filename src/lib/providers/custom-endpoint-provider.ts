@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { BaseAIProvider } from './base-provider';
+import { toConversation, toOpenAIMessage } from './messages';
+import { fromOpenAIToolCalls, toOpenAITools } from './tools';
+import { toOpenAIResponseFormat } from './structured-output';
+import { getCustomEndpointModels, parseCustomModelId } from './custom-models';
+import { chatCompletionUpdate, chatCompletionUsage, parseSSE, StreamUpdate } from './streaming';
+import {
+  ModelMetadata,
+  CompletionParams,
+  CompletionResponse,
+  CompletionChunk,
+  CustomEndpoint,
+  ProviderInfo,
+  ProviderName,
+  RequestOptions,
+} from './types';
+
+/**
+ * Whether the server may send requests to an endpoint's base URL. Endpoints
+ * come from the browser, so only origins listed in `CUSTOM_ENDPOINT_ORIGINS`
+ * (comma-separated, or `*` for any) are allowed; otherwise the server would
+ * forward requests to any host it can reach, internal ones included.
+ */
+export function isEndpointAllowed(baseUrl: string): boolean {
+  const allowed = (process.env.CUSTOM_ENDPOINT_ORIGINS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (allowed.includes('*')) return true;
+
+  const originOf = (url: string) => {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return null;
+    }
+  };
+  const origin = originOf(baseUrl);
+  return origin !== null && allowed.some(entry => originOf(entry) === origin);
+}
+
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` server, such as
+ * vLLM, the llama.cpp server or Ollama. Each registered endpoint gets its own
+ * instance, configured with the endpoint's base URL, API key and headers.
+ */
+export class CustomEndpointProvider extends BaseAIProvider {
+  readonly info: ProviderInfo;
+  readonly models: ModelMetadata[];
+
+  constructor(private readonly endpoint: CustomEndpoint) {
+    super();
+    this.models = getCustomEndpointModels(endpoint);
+    this.info = {
+      name: 'custom' as ProviderName,
+      displayName: endpoint.name,
+      description: `OpenAI-compatible endpoint at ${endpoint.baseUrl}`,
+      website: endpoint.baseUrl,
+      // Local servers usually run without authentication
+      requiresApiKey: false,
+      models: this.models,
+    };
+    this.config = {
+      apiKey: endpoint.apiKey,
+      baseUrl: endpoint.baseUrl,
+      headers: endpoint.headers,
+    };
+  }
+
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: { data }, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getCompletionsUrl(),
+        this.toChatRequest(modelId, params),
+        // Redirects are not followed, so an allowed origin cannot send the server elsewhere
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal, maxRedirects: 0 }
+      ));
+
+      const usage = chatCompletionUsage(data.usage);
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        toolCalls: fromOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
+        metadata: {
+          ...this.getMetadata(),
+          finishReason: data.choices?.[0]?.finish_reason,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const model = this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools are not streamed
+    if (!model.supportsStreaming || params.tools?.length) {
+      yield* super.completeStream(modelId, params, options);
+      return;
+    }
+
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: response, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getCompletionsUrl(),
+        { ...this.toChatRequest(modelId, params), stream: true, stream_options: { include_usage: true } },
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal, responseType: 'stream', maxRedirects: 0 }
+      ));
+
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        for await (const message of parseSSE(response.data)) {
+          if (message.data === '[DONE]') break;
+          yield chatCompletionUpdate(JSON.parse(message.data));
+        }
+      };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(), streamed: true, retry }, startTime);
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  /**
+   * Convert parameters to the OpenAI chat completions format, sending the
+   * model name the server knows rather than the namespaced ID
+   */
+  private toChatRequest(modelId: string, params: CompletionParams) {
+    const { temperature, maxTokens, topP, stopSequences } = this.withDefaults(params);
+
+    return {
+      model: parseCustomModelId(modelId).modelId,
+      messages: toConversation(params).map(toOpenAIMessage),
+      tools: params.tools?.length ? toOpenAITools(params.tools) : undefined,
+      response_format: toOpenAIResponseFormat(params.responseFormat),
+      temperature,
+      max_tokens: maxTokens,
+      top_p: topP,
+      stop: stopSequences,
+    };
+  }
+
+  private getCompletionsUrl(): string {
+    return `${(this.config.baseUrl || this.endpoint.baseUrl).replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+  }
+
+  private getMetadata() {
+    return {
+      provider: this.info.name,
+      endpoint: this.endpoint.name,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * IDs and metadata of custom endpoint models. Kept free of provider code so
+ * the browser, which stores the endpoints, can use them without bundling it.
+ */
+
+import { CustomEndpoint, ModelMetadata } from './types';
+
+/** Between the endpoint ID and the upstream model name in a custom model's ID */
+export const CUSTOM_MODEL_ID_SEPARATOR = '/';
+
+/**
+ * Grid-wide model ID of an endpoint's model. Endpoints often serve models
+ * under the same name (e.g. `llama3`), so IDs are namespaced by endpoint.
+ */
+export function getCustomModelId(endpointId: string, modelId: string): string {
+  return `${endpointId}${CUSTOM_MODEL_ID_SEPARATOR}${modelId}`;
+}
+
+/**
+ * Split a namespaced model ID back into its endpoint and upstream model name
+ */
+export function parseCustomModelId(id: string): { endpointId: string; modelId: string } {
+  const separator = id.indexOf(CUSTOM_MODEL_ID_SEPARATOR);
+  return separator === -1
+    ? { endpointId: '', modelId: id }
+    : { endpointId: id.slice(0, separator), modelId: id.slice(separator + CUSTOM_MODEL_ID_SEPARATOR.length) };
+}
+
+/**
+ * Model metadata for the models an endpoint serves
+ */
+export function getCustomEndpointModels(endpoint: CustomEndpoint): ModelMetadata[] {
+  return endpoint.models.map(model => ({
+    id: getCustomModelId(endpoint.id, model.id),
+    name: `${model.name || model.id} (${endpoint.name})`,
+    provider: 'custom',
+    maxTokens: model.maxTokens,
+    inputCostPer1kTokens: model.inputCostPer1kTokens,
+    outputCostPer1kTokens: model.outputCostPer1kTokens,
+    supportsStreaming: model.supportsStreaming,
+    capabilities: {
+      vision: false,
+      functionCalling: false,
+      systemMessages: true,
+      maxImages: 0,
+    },
+  }));
+}
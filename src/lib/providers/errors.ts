@@ -0,0 +1,140 @@
+/**
+ * Error classification shared by the providers.
+ *
+ * Each provider reports failures differently: Anthropic uses a typed
+ * `{ type: 'error', error: { type, message } }` body, OpenAI an
+ * `{ error: { type, code, message } }` body, Google an
+ * `{ error: { status, message, details } }` body with gRPC status names,
+ * Ollama a bare `{ error: string }` and OpenRouter forwards any of them with
+ * numeric codes. `classifyError` maps
+ * all of them onto `ErrorCode`.
+ */
+
+import { ErrorCode, ErrorInfo, ProviderError } from './types';
+
+/**
+ * Anthropic `error.type`, OpenAI `error.type`/`error.code` and Google
+ * `error.status`/`error.details[].reason` values
+ */
+const PROVIDER_ERROR_TYPES: Record<string, ErrorCode> = {
+  // Anthropic
+  authentication_error: 'auth_failed',
+  permission_error: 'auth_failed',
+  not_found_error: 'model_not_found',
+  rate_limit_error: 'rate_limited',
+  overloaded_error: 'overloaded',
+  request_too_large: 'context_length_exceeded',
+  api_error: 'server_error',
+  timeout_error: 'timeout',
+  // OpenAI
+  invalid_api_key: 'auth_failed',
+  invalid_organization: 'auth_failed',
+  model_not_found: 'model_not_found',
+  rate_limit_exceeded: 'rate_limited',
+  insufficient_quota: 'quota_exceeded',
+  context_length_exceeded: 'context_length_exceeded',
+  string_above_max_length: 'context_length_exceeded',
+  content_filter: 'content_filtered',
+  content_policy_violation: 'content_filtered',
+  server_error: 'server_error',
+  // Google
+  API_KEY_INVALID: 'auth_failed',
+  UNAUTHENTICATED: 'auth_failed',
+  PERMISSION_DENIED: 'auth_failed',
+  NOT_FOUND: 'model_not_found',
+  RESOURCE_EXHAUSTED: 'rate_limited',
+  DEADLINE_EXCEEDED: 'timeout',
+  UNAVAILABLE: 'overloaded',
+  INTERNAL: 'server_error',
+};
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: 'invalid_request',
+  401: 'auth_failed',
+  402: 'quota_exceeded',
+  403: 'auth_failed',
+  404: 'model_not_found',
+  408: 'timeout',
+  413: 'context_length_exceeded',
+  422: 'invalid_request',
+  429: 'rate_limited',
+  499: 'aborted',
+  502: 'server_error',
+  503: 'overloaded',
+  504: 'timeout',
+  529: 'overloaded',
+};
+
+const CONTEXT_LENGTH_PATTERN = /context (length|window)|prompt is too long|too many tokens|maximum context|reduce the length/i;
+const CONTENT_FILTER_PATTERN = /content (filter|policy|management)|flagged|moderation|safety system/i;
+const TIMEOUT_PATTERN = /timed? ?out|timeout/i;
+
+/**
+ * Normalize a failed request. `body` is the upstream error body if any;
+ * `error` is the thrown error, used for network failures without a response.
+ */
+export function classifyError(status: number | undefined, body?: any, error?: unknown): ErrorCode {
+  const inner = body?.error && typeof body.error === 'object' ? body.error : body;
+  const message: string =
+    inner?.message ||
+    (typeof body?.error === 'string' ? body.error : '') ||
+    body?.message ||
+    (error instanceof Error ? error.message : '');
+
+  // Bad requests are only told apart by their message
+  if (CONTEXT_LENGTH_PATTERN.test(message)) return 'context_length_exceeded';
+  if (CONTENT_FILTER_PATTERN.test(message) && (status === 400 || status === 403)) return 'content_filtered';
+
+  const reasons = Array.isArray(inner?.details) ? inner.details.map((detail: any) => detail?.reason) : [];
+  for (const key of [inner?.code, inner?.type, ...reasons, inner?.status]) {
+    if (typeof key === 'string' && Object.prototype.hasOwnProperty.call(PROVIDER_ERROR_TYPES, key)) {
+      return PROVIDER_ERROR_TYPES[key];
+    }
+  }
+
+  if (status === undefined) {
+    const code = (error as { code?: string } | undefined)?.code;
+    if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || TIMEOUT_PATTERN.test(message)) return 'timeout';
+    return error ? 'network' : 'unknown';
+  }
+
+  if (STATUS_CODES[status]) return STATUS_CODES[status];
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+/**
+ * Default HTTP status for an error code, for errors raised without one
+ */
+export function getErrorStatus(code: ErrorCode): number {
+  switch (code) {
+    case 'auth_failed': return 401;
+    case 'quota_exceeded': return 402;
+    case 'model_not_found': return 404;
+    case 'timeout': return 504;
+    case 'rate_limited': return 429;
+    case 'overloaded': return 503;
+    case 'network': return 502;
+    case 'aborted': return 499;
+    case 'invalid_request':
+    case 'context_length_exceeded':
+    case 'content_filtered':
+      return 400;
+    default: return 500;
+  }
+}
+
+/**
+ * Structured form of any thrown error, for JSON responses
+ */
+export function toErrorInfo(error: unknown): ErrorInfo {
+  if (error instanceof ProviderError) {
+    return { ...error.toJSON(), status: error.status ?? getErrorStatus(error.code) };
+  }
+  return {
+    code: 'unknown',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    status: 500,
+  };
+}
@@ -0,0 +1,289 @@
+import axios from 'axios';
+import { BaseAIProvider } from './base-provider';
+import { contentWithName, splitSystemMessages, toConversation } from './messages';
+import { parseToolArguments } from './tools';
+import { isJsonFormat } from './structured-output';
+import { getCatalogModels } from './catalog';
+import { parseSSE, StreamUpdate } from './streaming';
+import {
+  ChatMessage,
+  ModelMetadata,
+  CompletionParams,
+  CompletionResponse,
+  CompletionChunk,
+  ProviderError,
+  ProviderInfo,
+  ProviderName,
+  RequestOptions,
+  TokenUsage,
+  ToolCall,
+} from './types';
+
+const GOOGLE_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/** Finish reasons reported when a safety or policy filter stopped the response */
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+/**
+ * Map Gemini `usageMetadata` to token usage. Thinking tokens are billed as
+ * output but reported separately from `candidatesTokenCount`.
+ */
+function toTokenUsage(usage: any): TokenUsage {
+  const reasoningTokens = usage?.thoughtsTokenCount;
+  return {
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: (usage?.candidatesTokenCount || 0) + (reasoningTokens || 0),
+    cachedInputTokens: usage?.cachedContentTokenCount,
+    reasoningTokens,
+  };
+}
+
+/**
+ * Text of the first candidate in a `generateContent` response
+ */
+function candidateText(data: any): string {
+  const parts = data?.candidates?.[0]?.content?.parts || [];
+  return parts
+    .filter((part: any) => typeof part.text === 'string' && !part.thought)
+    .map((part: any) => part.text)
+    .join('');
+}
+
+/**
+ * Function calls of the first candidate. Gemini only assigns call IDs on
+ * some models, so missing ones are generated.
+ */
+function candidateToolCalls(data: any): ToolCall[] | undefined {
+  const calls = (data?.candidates?.[0]?.content?.parts || []).filter((part: any) => part.functionCall);
+  return calls.length > 0
+    ? calls.map((part: any, index: number) => ({
+        id: part.functionCall.id || `call_${index}`,
+        name: part.functionCall.name,
+        arguments: JSON.stringify(part.functionCall.args ?? {}),
+      }))
+    : undefined;
+}
+
+/**
+ * Parts of a turn: images as `inlineData` ahead of the text, tool calls as
+ * `functionCall` and tool results as `functionResponse`, whose `response`
+ * must be an object
+ */
+function toGeminiParts(message: ChatMessage) {
+  if (message.role === 'tool') {
+    let response: unknown;
+    try {
+      response = JSON.parse(message.content);
+    } catch {
+      response = undefined;
+    }
+    return [{
+      functionResponse: {
+        name: message.name,
+        response: typeof response === 'object' && response !== null && !Array.isArray(response)
+          ? response
+          : { content: message.content },
+      },
+    }];
+  }
+  return [
+    ...(message.images || []).map(image => ({ inlineData: { mimeType: image.mediaType, data: image.data } })),
+    ...(message.content || !message.toolCalls?.length ? [{ text: contentWithName(message) }] : []),
+    ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: parseToolArguments(call) } })),
+  ];
+}
+
+/**
+ * Error for a prompt or response withheld by Gemini's safety filters, or
+ * null if the response was not blocked
+ */
+function getBlockedError(data: any): ProviderError | null {
+  const blockReason = data?.promptFeedback?.blockReason;
+  if (blockReason) {
+    return new ProviderError(`Google AI blocked the prompt: ${blockReason}`, 'content_filtered', 400, {
+      safetyRatings: data.promptFeedback.safetyRatings,
+    });
+  }
+
+  const candidate = data?.candidates?.[0];
+  if (candidate && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+    return new ProviderError(`Google AI blocked the response: ${candidate.finishReason}`, 'content_filtered', 400, {
+      safetyRatings: candidate.safetyRatings,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Google AI provider implementation
+ * Supports Gemini models through the Gemini API
+ */
+export class GoogleProvider extends BaseAIProvider {
+  readonly info: ProviderInfo = {
+    name: 'google' as ProviderName,
+    displayName: 'Google AI',
+    description: 'Gemini models by Google, with long context windows and native multimodal input.',
+    website: 'https://ai.google.dev',
+    requiresApiKey: true,
+    apiKeyEnvVar: 'GEMINI_API_KEY',
+    models: [], // Will be populated below
+  };
+
+  readonly models: ModelMetadata[] = getCatalogModels('google');
+
+  constructor() {
+    super();
+    // Update the info with the actual models
+    this.info.models = this.models;
+  }
+
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: { data }, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getModelUrl(modelId, 'generateContent'),
+        this.toGeminiRequest(params),
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal }
+      ));
+
+      const content = candidateText(data);
+      const blocked = getBlockedError(data);
+      if (blocked && !content) {
+        throw blocked;
+      }
+
+      const usage = toTokenUsage(data.usageMetadata);
+
+      return {
+        content,
+        toolCalls: candidateToolCalls(data),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
+        metadata: {
+          ...this.getMetadata(params),
+          finishReason: data.candidates?.[0]?.finishReason,
+          safetyRatings: data.candidates?.[0]?.safetyRatings,
+          modelVersion: data.modelVersion,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const model = this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools are not streamed
+    if (!model.supportsStreaming || params.tools?.length) {
+      yield* super.completeStream(modelId, params, options);
+      return;
+    }
+
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: response, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getModelUrl(modelId, 'streamGenerateContent'),
+        this.toGeminiRequest(params),
+        {
+          headers: this.getHeaders(apiKey),
+          params: { alt: 'sse' },
+          timeout: this.config.timeout,
+          signal: options?.signal,
+          responseType: 'stream',
+        }
+      ));
+
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        let streamedText = false;
+        for await (const message of parseSSE(response.data)) {
+          const chunk = JSON.parse(message.data);
+          const content = candidateText(chunk);
+          const blocked = getBlockedError(chunk);
+          // A filter that trips after text was streamed just ends the response early
+          if (blocked && !streamedText && !content) {
+            throw blocked;
+          }
+          streamedText ||= !!content;
+          // Every chunk carries the running usage totals
+          yield { content, ...(chunk.usageMetadata ? toTokenUsage(chunk.usageMetadata) : {}) };
+        }
+      };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(params), streamed: true, retry }, startTime);
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  /**
+   * Convert parameters to the Gemini `generateContent` format. System
+   * messages become `systemInstruction` rather than conversation turns,
+   * assistant turns use Gemini's `model` role, and tool results are user
+   * turns, with the results of parallel calls sent together.
+   */
+  private toGeminiRequest(params: CompletionParams) {
+    const { temperature, maxTokens, topP, stopSequences } = this.withDefaults(params);
+    const { system, turns } = splitSystemMessages(toConversation(params));
+
+    return {
+      contents: turns.reduce<Array<{ role: 'user' | 'model'; parts: any[] }>>((contents, message) => {
+        const previous = contents[contents.length - 1];
+        if (message.role === 'tool' && previous?.parts[0]?.functionResponse) {
+          previous.parts.push(...toGeminiParts(message));
+        } else {
+          contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts: toGeminiParts(message) });
+        }
+        return contents;
+      }, []),
+      // `parametersJsonSchema` takes full JSON Schema, unlike the OpenAPI subset of `parameters`
+      tools: params.tools?.length
+        ? [{
+            functionDeclarations: params.tools.map(({ name, description, parameters }) => ({
+              name,
+              description,
+              parametersJsonSchema: parameters,
+            })),
+          }]
+        : undefined,
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      generationConfig: {
+        temperature,
+        topP,
+        maxOutputTokens: maxTokens,
+        stopSequences,
+        responseMimeType: isJsonFormat(params.responseFormat) ? 'application/json' : undefined,
+        responseJsonSchema: params.responseFormat?.type === 'json_schema' ? params.responseFormat.schema : undefined,
+      },
+      safetySettings: this.config.safetySettings,
+    };
+  }
+
+  private getModelUrl(modelId: string, method: 'generateContent' | 'streamGenerateContent'): string {
+    return `${this.config.baseUrl || GOOGLE_API_URL}/models/${modelId}:${method}`;
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      'x-goog-api-key': apiKey,
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+  }
+
+  private getMetadata(params: CompletionParams) {
+    return {
+      provider: this.info.name,
+      timestamp: new Date().toISOString(),
+      systemMessage: params.systemMessage,
+    };
+  }
+}
@@ -29,22 +29,78 @@
 export type {
   ModelMetadata,
   ModelCapabilities,
+  ModelPrice,
+  ModelStatus,
+  ModelAvailability,
+  AvailableModel,
+  CatalogModel,
+  ModelCatalog,
   ProviderConfig,
   CompletionParams,
+  ChatMessage,
+  ImageInput,
+  ImageMediaType,
+  ToolDefinition,
+  ToolCall,
+  ResponseFormat,
+  StructuredOutput,
+  SchemaIssue,
   CompletionResponse,
-  ProviderError,
+  CompletionChunk,
+  TokenUsage,
+  CostBreakdown,
+  CompletionRequest,
+  RequestOptions,
+  ErrorCode,
+  ErrorInfo,
   ProviderName,
   ProviderInfo,
+  SafetySetting,
+  CustomEndpoint,
+  CustomEndpointModel,
+  OllamaOptions,
+  RetryPolicy,
+  RetryInfo,
 } from './types';
+export { ProviderError } from './types';
 
 // Base provider interface and abstract class
 export type { AIProvider } from './base-provider';
 export { BaseAIProvider } from './base-provider';
 
+// Pricing
+export { calculateCost } from './pricing';
+
+// Model catalog
+export {
+  modelCatalog,
+  validateCatalog,
+  parseCatalog,
+  findCatalogModel,
+  getPriceAt,
+  getModelStatus,
+  recostUsage,
+  recostResponse,
+} from './catalog';
+
+// Error classification
+export { classifyError, toErrorInfo } from './errors';
+
+// Retries
+export { DEFAULT_RETRY_POLICY, resolveRetryPolicy, withRetry, getRetryAfterMs, isRetryableError } from './retry';
+
+// Streaming helpers
+export type { StreamEvent } from './streaming';
+export { readCompletionStream, isAbortError } from './streaming';
+
 // Specific provider implementations
 export { AnthropicProvider } from './anthropic-provider';
 export { OpenAIProvider } from './openai-provider';
 export { OpenRouterProvider } from './openrouter-provider';
+export { GoogleProvider } from './google-provider';
+export { OllamaProvider } from './ollama-provider';
+export { CustomEndpointProvider } from './custom-endpoint-provider';
+export { CUSTOM_MODEL_ID_SEPARATOR, getCustomEndpointModels, getCustomModelId, parseCustomModelId } from './custom-models';
 
 // Provider registry
 export { ProviderRegistry, providerRegistry } from './provider-registry';
@@ -62,6 +118,7 @@ export async function setupProviders(config: {
   anthropicApiKey?: string;
   openaiApiKey?: string;
   openRouterApiKey?: string;
+  googleApiKey?: string;
 }) {
   const configurations: Record<string, any> = {};
   
@@ -73,6 +130,10 @@ export async function setupProviders(config: {
     configurations.openai = { apiKey: config.openaiApiKey };
   }
   
+  if (config.googleApiKey) {
+    configurations.google = { apiKey: config.googleApiKey };
+  }
+  
   if (config.openRouterApiKey) {
     configurations.openrouter = { apiKey: config.openRouterApiKey };
     // Also configure other providers to use OpenRouter if they don't have their own keys
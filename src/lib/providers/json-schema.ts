@@ -0,0 +1,140 @@
+import { SchemaIssue } from './types';
+
+/**
+ * JSON Schema checks shared by tool calls and structured output.
+ *
+ * Covers the keywords tool and response schemas use: `type`, `enum`,
+ * `const`, `properties`, `required`, `additionalProperties`, `items`,
+ * `anyOf`, and the length, size and range bounds. Other keywords are ignored.
+ */
+
+export const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+export function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Check a value against a JSON Schema, returning each problem with the path
+ * of the value it applies to, e.g. `$.items[0].name`
+ */
+export function validateJsonSchema(schema: Record<string, any>, value: unknown, path = '$'): SchemaIssue[] {
+  if (typeof schema !== 'object' || schema === null) return [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` }];
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    return [{ path, message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}` }];
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    return [{ path, message: `must be ${JSON.stringify(schema.const)}` }];
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((option: Record<string, any>) => validateJsonSchema(option, value, path).length === 0)) {
+    return [{ path, message: 'does not match any of the allowed schemas' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          issues.push({ path, message: `must match ${schema.pattern}` });
+        }
+      } catch {
+        // An invalid pattern in the schema says nothing about the value
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (typeof schema.items === 'object' && schema.items !== null) {
+      value.forEach((item, index) => issues.push(...validateJsonSchema(schema.items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(name in object)) {
+        issues.push({ path: `${path}.${name}`, message: 'is required' });
+      }
+    }
+    for (const [name, property] of Object.entries(object)) {
+      if (properties[name]) {
+        issues.push(...validateJsonSchema(properties[name], property, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${name}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(schema.additionalProperties, property, `${path}.${name}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path} ${issue.message}`;
+}
+
+/**
+ * Problems with a schema for an object, such as tool parameters or a
+ * structured response: it must be an object schema whose properties use
+ * known types
+ */
+export function validateObjectSchema(schema: unknown, label: string): string[] {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return [`${label} must be a JSON Schema object`];
+  }
+  const { type, properties } = schema as Record<string, any>;
+  if (type !== 'object') {
+    return [`${label} must have "type": "object"`];
+  }
+  if (properties !== undefined && (typeof properties !== 'object' || properties === null)) {
+    return [`${label} properties must be an object`];
+  }
+
+  const issues: string[] = [];
+  for (const [name, property] of Object.entries<any>(properties || {})) {
+    const types = Array.isArray(property?.type) ? property.type : [property?.type];
+    if (property?.type !== undefined && !types.every((t: unknown) => SCHEMA_TYPES.includes(t as string))) {
+      issues.push(`${label} property ${name} has an unknown type`);
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,97 @@
+import { ChatMessage, CompletionParams, ImageInput, ImageMediaType, ModelMetadata } from './types';
+
+export const IMAGE_MEDIA_TYPES: ImageMediaType[] = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * The whole conversation of a request: the system message, the earlier turns
+ * in `messages`, `prompt` as the latest user turn with `images` attached,
+ * then any `toolTurns` of a tool-calling loop
+ */
+export function toConversation(params: CompletionParams): ChatMessage[] {
+  return [
+    ...(params.systemMessage ? [{ role: 'system' as const, content: params.systemMessage }] : []),
+    ...(params.messages || []),
+    { role: 'user', content: params.prompt, ...(params.images?.length ? { images: params.images } : {}) },
+    ...(params.toolTurns || []),
+  ];
+}
+
+/**
+ * Split a conversation for APIs that take system instructions apart from the
+ * turns (Anthropic, Gemini). System messages are joined in order.
+ */
+export function splitSystemMessages(conversation: ChatMessage[]): {
+  system?: string;
+  turns: Array<ChatMessage & { role: 'user' | 'assistant' | 'tool' }>;
+} {
+  const system = conversation.filter(message => message.role === 'system').map(message => message.content);
+  return {
+    system: system.length > 0 ? system.join('\n\n') : undefined,
+    turns: conversation.filter((message): message is ChatMessage & { role: 'user' | 'assistant' | 'tool' } => message.role !== 'system'),
+  };
+}
+
+/**
+ * Message text with the speaker's name in front, for APIs without a `name`
+ * field. Tool results keep their content as is.
+ */
+export function contentWithName(message: ChatMessage): string {
+  return message.name && message.role !== 'tool' ? `${message.name}: ${message.content}` : message.content;
+}
+
+/**
+ * A message in the OpenAI chat format, shared by OpenAI, OpenRouter and
+ * custom endpoints. Turns with images use content parts with data URLs.
+ */
+export function toOpenAIMessage({ role, content, name, images, toolCalls, toolCallId }: ChatMessage) {
+  if (role === 'tool') {
+    return { role, content, tool_call_id: toolCallId };
+  }
+  if (toolCalls?.length) {
+    return {
+      role,
+      content: content || null,
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return {
+    role,
+    content: images?.length
+      ? [
+          { type: 'text' as const, text: content },
+          ...images.map(image => ({ type: 'image_url' as const, image_url: { url: toDataUrl(image) } })),
+        ]
+      : content,
+    ...(name ? { name } : {}),
+  };
+}
+
+export function toDataUrl(image: ImageInput): string {
+  return `data:${image.mediaType};base64,${image.data}`;
+}
+
+/**
+ * Number of images across the whole conversation of a request
+ */
+export function countImages(params: CompletionParams): number {
+  return toConversation(params).reduce((count, message) => count + (message.images?.length || 0), 0);
+}
+
+/**
+ * Why a model cannot take a request with this many images, or null if it can
+ */
+export function getImageIssue(model: ModelMetadata, imageCount: number): string | null {
+  if (imageCount === 0) return null;
+  if (!model.capabilities.vision) {
+    return `${model.name} does not accept images`;
+  }
+  const { maxImages } = model.capabilities;
+  if (maxImages !== undefined && imageCount > maxImages) {
+    return `${model.name} accepts at most ${maxImages} image${maxImages !== 1 ? 's' : ''} per request (got ${imageCount})`;
+  }
+  return null;
+}
@@ -0,0 +1,259 @@
+import axios from 'axios';
+import { BaseAIProvider } from './base-provider';
+import { contentWithName, toConversation } from './messages';
+import { fromOpenAIToolCalls, parseToolArguments, toOpenAITools } from './tools';
+import { toOllamaFormat } from './structured-output';
+import { parseNDJSON, StreamUpdate } from './streaming';
+import { classifyError } from './errors';
+import {
+  ModelMetadata,
+  CompletionParams,
+  CompletionResponse,
+  CompletionChunk,
+  ProviderError,
+  ProviderInfo,
+  ProviderName,
+  RequestOptions,
+  TokenUsage,
+} from './types';
+
+const OLLAMA_DEFAULT_URL = 'http://localhost:11434';
+/** How long discovered models (or an unreachable daemon) are remembered */
+const DISCOVERY_TTL_MS = 30000;
+const DISCOVERY_TIMEOUT_MS = 2000;
+/** Ollama's default `num_ctx`, used when a model reports no context length */
+const DEFAULT_CONTEXT_LENGTH = 2048;
+
+/**
+ * Map Ollama's prompt and generation counts to token usage
+ */
+function toTokenUsage(data: any): TokenUsage {
+  return {
+    inputTokens: data?.prompt_eval_count || 0,
+    outputTokens: data?.eval_count || 0,
+  };
+}
+
+/**
+ * Ollama provider implementation
+ * Runs models installed on a local Ollama daemon through its native API.
+ * Models are discovered from `/api/tags` rather than listed up front.
+ */
+export class OllamaProvider extends BaseAIProvider {
+  readonly info: ProviderInfo = {
+    name: 'ollama' as ProviderName,
+    displayName: 'Ollama',
+    description: 'Open models running locally on an Ollama daemon.',
+    website: 'https://ollama.com',
+    requiresApiKey: false,
+    models: [], // Populated by discoverModels
+  };
+
+  models: ModelMetadata[] = [];
+
+  private discovery?: { at: number; reachable: boolean };
+
+  /**
+   * List the daemon's installed models, reading each model's context length
+   * and capabilities from `/api/show`. Results are cached for a short while;
+   * throws if the daemon cannot be reached.
+   */
+  async discoverModels(force = false): Promise<ModelMetadata[]> {
+    if (!force && this.discovery && Date.now() - this.discovery.at < DISCOVERY_TTL_MS) {
+      if (!this.discovery.reachable) {
+        throw this.createError(`Ollama is not reachable at ${this.getBaseUrl()}`, 'network');
+      }
+      return this.models;
+    }
+
+    try {
+      const { data } = await axios.get(`${this.getBaseUrl()}/api/tags`, { timeout: DISCOVERY_TIMEOUT_MS });
+      this.models = await Promise.all((data.models || []).map((tag: any) => this.toModelMetadata(tag)));
+      this.info.models = this.models;
+      this.discovery = { at: Date.now(), reachable: true };
+      return this.models;
+    } catch (error) {
+      this.discovery = { at: Date.now(), reachable: false };
+      throw await this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Whether the daemon answers, refreshing the model list if it does
+   */
+  async isReachable(): Promise<boolean> {
+    try {
+      await this.discoverModels();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async validateConnection(): Promise<boolean> {
+    return this.isReachable();
+  }
+
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const startTime = Date.now();
+
+    try {
+      const { result: { data }, retry } = await this.sendWithRetry(options, () => axios.post(
+        `${this.getBaseUrl()}/api/chat`,
+        { ...this.toOllamaRequest(modelId, params), stream: false },
+        { headers: this.getHeaders(), timeout: this.config.timeout, signal: options?.signal }
+      ));
+
+      const usage = toTokenUsage(data);
+
+      return {
+        content: data.message?.content || '',
+        toolCalls: fromOpenAIToolCalls(data.message?.tool_calls),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
+        metadata: {
+          ...this.getMetadata(data),
+          finishReason: data.done_reason,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools are not streamed
+    if (params.tools?.length) {
+      yield* super.completeStream(modelId, params, options);
+      return;
+    }
+    const startTime = Date.now();
+
+    try {
+      const { result: response, retry } = await this.sendWithRetry(options, () => axios.post(
+        `${this.getBaseUrl()}/api/chat`,
+        { ...this.toOllamaRequest(modelId, params), stream: true },
+        { headers: this.getHeaders(), timeout: this.config.timeout, signal: options?.signal, responseType: 'stream' }
+      ));
+
+      // Ollama streams one JSON object per line; the last one (`done: true`) carries the counts
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        for await (const chunk of parseNDJSON(response.data)) {
+          if (chunk.error) {
+            throw new ProviderError(`Ollama API error: ${chunk.error}`, classifyError(undefined, chunk));
+          }
+          yield {
+            content: chunk.message?.content || undefined,
+            ...(chunk.done ? toTokenUsage(chunk) : {}),
+          };
+        }
+      };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(), streamed: true, retry }, startTime);
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  /**
+   * Convert parameters to the native `/api/chat` format. Sampling settings
+   * and runtime options both go in `options`.
+   */
+  private toOllamaRequest(modelId: string, params: CompletionParams) {
+    const { temperature, maxTokens, topP, stopSequences, ollamaOptions } = this.withDefaults(params);
+
+    return {
+      model: modelId,
+      // `/api/chat` has no speaker names or call IDs, takes images as bare
+      // base64 and tool arguments as objects
+      messages: toConversation(params).map(message => ({
+        role: message.role,
+        content: contentWithName(message),
+        images: message.images?.map(image => image.data),
+        tool_calls: message.toolCalls?.map(call => ({
+          function: { name: call.name, arguments: parseToolArguments(call) },
+        })),
+        tool_name: message.role === 'tool' ? message.name : undefined,
+      })),
+      tools: params.tools?.length ? toOpenAITools(params.tools) : undefined,
+      format: toOllamaFormat(params.responseFormat),
+      options: {
+        temperature,
+        top_p: topP,
+        num_predict: maxTokens,
+        stop: stopSequences,
+        num_ctx: ollamaOptions?.numCtx,
+        seed: ollamaOptions?.seed,
+        repeat_penalty: ollamaOptions?.repeatPenalty,
+      },
+    };
+  }
+
+  /**
+   * Model metadata for an `/api/tags` entry. Local models cost nothing.
+   */
+  private async toModelMetadata(tag: any): Promise<ModelMetadata> {
+    let contextLength = DEFAULT_CONTEXT_LENGTH;
+    let capabilities: string[] = [];
+
+    try {
+      const { data } = await axios.post(
+        `${this.getBaseUrl()}/api/show`,
+        { model: tag.name },
+        { timeout: DISCOVERY_TIMEOUT_MS }
+      );
+      const architecture = data.model_info?.['general.architecture'];
+      contextLength = data.model_info?.[`${architecture}.context_length`] || contextLength;
+      capabilities = data.capabilities || [];
+    } catch (error) {
+      console.error(`Failed to read Ollama model info: ${tag.name}`, error);
+    }
+
+    const vision = capabilities.includes('vision');
+    return {
+      id: tag.name,
+      name: `${tag.name} (Ollama)`,
+      provider: 'ollama',
+      maxTokens: contextLength,
+      inputCostPer1kTokens: 0,
+      outputCostPer1kTokens: 0,
+      supportsStreaming: true,
+      capabilities: {
+        vision,
+        functionCalling: capabilities.includes('tools'),
+        systemMessages: true,
+        maxImages: vision ? 1 : 0,
+      },
+    };
+  }
+
+  /**
+   * The daemon's URL: the configured base URL, then `OLLAMA_HOST`, which may
+   * omit the scheme (e.g. `127.0.0.1:11434`)
+   */
+  private getBaseUrl(): string {
+    const host = this.config.baseUrl || process.env.OLLAMA_HOST || OLLAMA_DEFAULT_URL;
+    return (/^https?:\/\//.test(host) ? host : `http://${host}`).replace(/\/+$/, '');
+  }
+
+  private getHeaders() {
+    return {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+  }
+
+  private getMetadata(data?: any) {
+    return {
+      provider: this.info.name,
+      timestamp: new Date().toISOString(),
+      // Nanoseconds spent loading the model into memory, for cold starts
+      loadDuration: data?.load_duration,
+    };
+  }
+}
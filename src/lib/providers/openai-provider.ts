@@ -1,10 +1,18 @@
+import OpenAI from 'openai';
 import { BaseAIProvider } from './base-provider';
+import { toConversation, toOpenAIMessage } from './messages';
+import { fromOpenAIToolCalls, toOpenAITools } from './tools';
+import { toOpenAIResponseFormat } from './structured-output';
+import { getCatalogModels } from './catalog';
+import { chatCompletionUpdate, chatCompletionUsage, StreamUpdate } from './streaming';
 import {
   ModelMetadata,
   CompletionParams,
   CompletionResponse,
+  CompletionChunk,
   ProviderInfo,
   ProviderName,
+  RequestOptions,
 } from './types';
 
 /**
@@ -18,56 +26,11 @@ export class OpenAIProvider extends BaseAIProvider {
     description: 'GPT models by OpenAI, including the latest GPT-4o and GPT-4 Turbo models.',
     website: 'https://openai.com',
     requiresApiKey: true,
+    apiKeyEnvVar: 'OPENAI_API_KEY',
     models: [], // Will be populated below
   };
 
-  readonly models: ModelMetadata[] = [
-    {
-      id: 'gpt-4o',
-      name: 'GPT-4o',
-      provider: 'openai',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.005,
-      outputCostPer1kTokens: 0.015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 10,
-      },
-    },
-    {
-      id: 'gpt-4-turbo-2024-04-09',
-      name: 'GPT-4 Turbo',
-      provider: 'openai',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.01,
-      outputCostPer1kTokens: 0.03,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 10,
-      },
-    },
-    {
-      id: 'gpt-3.5-turbo-0125',
-      name: 'GPT-3.5 Turbo',
-      provider: 'openai',
-      maxTokens: 16385,
-      inputCostPer1kTokens: 0.0005,
-      outputCostPer1kTokens: 0.0015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: false,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 0,
-      },
-    },
-  ];
+  readonly models: ModelMetadata[] = getCatalogModels('openai');
 
   constructor() {
     super();
@@ -75,70 +38,94 @@ export class OpenAIProvider extends BaseAIProvider {
     this.info.models = this.models;
   }
 
-  async complete(modelId: string, params: CompletionParams): Promise<CompletionResponse> {
-    if (!this.isConfigured() && !process.env.OPENAI_API_KEY && !process.env.OPENROUTER_API_KEY) {
-      throw this.createError('OpenAI provider is not configured. Please provide an API key.');
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const client = this.createClient(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: completion, retry } = await this.sendWithRetry(options, () => client.chat.completions.create(
+        {
+          model: modelId,
+          ...this.convertParamsToOpenAIFormat(params),
+        },
+        { signal: options?.signal }
+      ));
+
+      const usage = chatCompletionUsage(completion.usage);
+
+      return {
+        content: completion.choices[0]?.message.content || '',
+        toolCalls: fromOpenAIToolCalls(completion.choices[0]?.message.tool_calls),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
+        metadata: {
+          ...this.getMetadata(params),
+          finishReason: completion.choices[0]?.finish_reason,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
     }
+  }
 
-    const model = this.getModel(modelId);
-    if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const model = this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools are not streamed
+    if (!model.supportsStreaming || params.tools?.length) {
+      yield* super.completeStream(modelId, params, options);
+      return;
     }
 
+    const client = this.createClient(options);
+    const startTime = Date.now();
+
     try {
-      // Make actual API call through our route handler
-      const response = await fetch('/api/complete', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const { result: stream, retry } = await this.sendWithRetry(options, () => client.chat.completions.create(
+        {
+          model: modelId,
+          ...this.convertParamsToOpenAIFormat(params),
+          stream: true,
+          stream_options: { include_usage: true },
         },
-        body: JSON.stringify({
-          provider: 'openai',
-          modelId,
-          prompt: params.prompt,
-          systemMessage: params.systemMessage,
-          temperature: params.temperature,
-          maxTokens: params.maxTokens,
-          topP: params.topP,
-          apiKey: this.config.apiKey,
-          useOpenRouter: this.config.useOpenRouter
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.details || error.error || 'API request failed');
-      }
-
-      const data = await response.json();
-      
-      // Calculate cost based on model pricing
-      const cost = this.estimateCost(modelId, data.inputTokens, data.outputTokens);
-      
-      return {
-        ...data,
-        cost,
-        metadata: {
-          ...data.metadata,
-          openaiVersion: '2024-02-01',
-          modelVersion: model.id,
-          systemMessage: params.systemMessage,
-          finishReason: 'stop',
+        { signal: options?.signal }
+      ));
+
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        for await (const chunk of stream) {
+          yield chatCompletionUpdate(chunk);
         }
       };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(params), streamed: true, retry }, startTime);
     } catch (error) {
-      if (error instanceof Error) {
-        throw this.createError(
-          `OpenAI API error: ${error.message}`,
-          'API_ERROR',
-          undefined,
-          { originalError: error }
-        );
-      }
-      throw error;
+      throw await this.toProviderError(error, options?.signal);
     }
   }
 
+  private createClient(options?: RequestOptions): OpenAI {
+    return new OpenAI({
+      apiKey: this.getApiKey(options),
+      baseURL: this.config.baseUrl,
+      timeout: this.config.timeout,
+      defaultHeaders: this.config.headers,
+      // Retries are handled by sendWithRetry so they share one policy
+      maxRetries: 0,
+    });
+  }
+
+  private getMetadata(params: CompletionParams) {
+    return {
+      provider: this.info.name,
+      timestamp: new Date().toISOString(),
+      openaiVersion: '2024-02-01',
+      systemMessage: params.systemMessage,
+    };
+  }
+
   /**
    * OpenAI-specific method to validate the model supports the requested features
    */
@@ -162,7 +149,7 @@ export class OpenAIProvider extends BaseAIProvider {
   getRecommendedSettings(modelId: string): Partial<CompletionParams> {
     const model = this.getModel(modelId);
     if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
     }
 
     const baseSettings: Partial<CompletionParams> = {
@@ -200,21 +187,19 @@ export class OpenAIProvider extends BaseAIProvider {
    * Convert parameters to OpenAI API format
    */
   private convertParamsToOpenAIFormat(params: CompletionParams) {
-    const messages: Array<{ role: string; content: string }> = [];
-
-    if (params.systemMessage) {
-      messages.push({ role: 'system', content: params.systemMessage });
-    }
-
-    messages.push({ role: 'user', content: params.prompt });
+    const { temperature, maxTokens, topP, stopSequences } = this.withDefaults(params);
+    const messages = toConversation(params).map(message =>
+      toOpenAIMessage(message) as OpenAI.Chat.ChatCompletionMessageParam
+    );
 
     return {
       messages,
-      max_tokens: params.maxTokens,
-      temperature: params.temperature,
-      top_p: params.topP,
-      stream: params.stream,
-      stop: params.stopSequences,
+      tools: params.tools?.length ? toOpenAITools(params.tools) : undefined,
+      response_format: toOpenAIResponseFormat(params.responseFormat),
+      max_tokens: maxTokens,
+      temperature,
+      top_p: topP,
+      stop: stopSequences,
     };
   }
 
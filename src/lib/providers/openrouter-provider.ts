@@ -1,15 +1,75 @@
+import axios from 'axios';
 import { BaseAIProvider } from './base-provider';
+import { toConversation, toOpenAIMessage } from './messages';
+import { fromOpenAIToolCalls, toOpenAITools } from './tools';
+import { toOpenAIResponseFormat } from './structured-output';
+import { getCatalogModels } from './catalog';
+import { chatCompletionUpdate, chatCompletionUsage, parseSSE, StreamUpdate } from './streaming';
+import { classifyError } from './errors';
 import {
   ModelMetadata,
   CompletionParams,
   CompletionResponse,
+  CompletionChunk,
+  ProviderError,
   ProviderInfo,
   ProviderName,
+  RequestOptions,
 } from './types';
 
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1';
+/** How long a synced catalog is used before it is fetched again */
+const CATALOG_TTL_MS = 60 * 60 * 1000;
+/** How long to wait before retrying a failed sync */
+const CATALOG_RETRY_MS = 60 * 1000;
+const CATALOG_TIMEOUT_MS = 10000;
+
+/**
+ * Convert a per-token USD price string from the catalog to a per-1k price.
+ * Negative prices mark variable-priced routers such as `openrouter/auto`.
+ */
+function toPer1k(price: unknown): number | undefined {
+  const perToken = parseFloat(price as string);
+  return Number.isFinite(perToken) ? Math.max(0, perToken) * 1000 : undefined;
+}
+
+/**
+ * Map an entry of OpenRouter's `/models` catalog to model metadata
+ */
+function toModelMetadata(entry: any): ModelMetadata {
+  const vision = (entry.architecture?.input_modalities || []).includes('image');
+  return {
+    id: entry.id,
+    name: `${entry.name || entry.id} (OpenRouter)`,
+    provider: 'openrouter',
+    maxTokens: entry.context_length || entry.top_provider?.context_length || 4096,
+    inputCostPer1kTokens: toPer1k(entry.pricing?.prompt) ?? 0,
+    outputCostPer1kTokens: toPer1k(entry.pricing?.completion) ?? 0,
+    cachedInputCostPer1kTokens: toPer1k(entry.pricing?.input_cache_read),
+    reasoningCostPer1kTokens: toPer1k(entry.pricing?.internal_reasoning) || undefined,
+    supportsStreaming: true,
+    capabilities: {
+      vision,
+      functionCalling: (entry.supported_parameters || []).includes('tools'),
+      systemMessages: true,
+      maxImages: vision ? 10 : 0,
+    },
+  };
+}
+
+/**
+ * Whether a catalog entry can answer a chat prompt with text
+ */
+function isTextModel(entry: any): boolean {
+  const outputs: string[] | undefined = entry.architecture?.output_modalities;
+  return !outputs || outputs.includes('text');
+}
+
 /**
  * OpenRouter provider implementation
- * Provides access to multiple AI models from different providers through a single API
+ * Provides access to multiple AI models from different providers through a single API.
+ * The bundled models from catalog.json are used until OpenRouter's own
+ * catalog is synced from `/models`.
  */
 export class OpenRouterProvider extends BaseAIProvider {
   readonly info: ProviderInfo = {
@@ -18,166 +78,15 @@ export class OpenRouterProvider extends BaseAIProvider {
     description: 'Access multiple AI models from different providers with a single API key.',
     website: 'https://openrouter.ai',
     requiresApiKey: true,
+    apiKeyEnvVar: 'OPENROUTER_API_KEY',
     models: [], // Will be populated below
   };
 
-  readonly models: ModelMetadata[] = [
-    // OpenAI Models
-    {
-      id: 'openai/gpt-4o',
-      name: 'GPT-4o (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.005,
-      outputCostPer1kTokens: 0.015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 10,
-      },
-    },
-    {
-      id: 'openai/gpt-4-turbo',
-      name: 'GPT-4 Turbo (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.01,
-      outputCostPer1kTokens: 0.03,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 10,
-      },
-    },
-    {
-      id: 'openai/gpt-3.5-turbo',
-      name: 'GPT-3.5 Turbo (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 16385,
-      inputCostPer1kTokens: 0.0005,
-      outputCostPer1kTokens: 0.0015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: false,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 0,
-      },
-    },
-    // Anthropic Models
-    {
-      id: 'anthropic/claude-3.5-sonnet',
-      name: 'Claude 3.5 Sonnet (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.003,
-      outputCostPer1kTokens: 0.015,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-    {
-      id: 'anthropic/claude-3-opus',
-      name: 'Claude 3 Opus (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.015,
-      outputCostPer1kTokens: 0.075,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-    {
-      id: 'anthropic/claude-3-haiku',
-      name: 'Claude 3 Haiku (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 200000,
-      inputCostPer1kTokens: 0.00025,
-      outputCostPer1kTokens: 0.00125,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 20,
-      },
-    },
-    // Google Models
-    {
-      id: 'google/gemini-pro-1.5',
-      name: 'Gemini Pro 1.5 (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 1000000,
-      inputCostPer1kTokens: 0.00125,
-      outputCostPer1kTokens: 0.005,
-      supportsStreaming: true,
-      capabilities: {
-        vision: true,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 10,
-      },
-    },
-    // Meta Models
-    {
-      id: 'meta-llama/llama-3.1-405b-instruct',
-      name: 'Llama 3.1 405B (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.003,
-      outputCostPer1kTokens: 0.003,
-      supportsStreaming: true,
-      capabilities: {
-        vision: false,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 0,
-      },
-    },
-    {
-      id: 'meta-llama/llama-3.1-70b-instruct',
-      name: 'Llama 3.1 70B (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.0008,
-      outputCostPer1kTokens: 0.0008,
-      supportsStreaming: true,
-      capabilities: {
-        vision: false,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 0,
-      },
-    },
-    // Mistral Models
-    {
-      id: 'mistralai/mistral-large',
-      name: 'Mistral Large (OpenRouter)',
-      provider: 'openrouter',
-      maxTokens: 128000,
-      inputCostPer1kTokens: 0.008,
-      outputCostPer1kTokens: 0.024,
-      supportsStreaming: true,
-      capabilities: {
-        vision: false,
-        functionCalling: true,
-        systemMessages: true,
-        maxImages: 0,
-      },
-    },
-  ];
+  models: ModelMetadata[] = getCatalogModels('openrouter');
+
+  private syncedAt?: number;
+  private failedAt?: number;
+  private pendingSync?: Promise<ModelMetadata[]>;
 
   constructor() {
     super();
@@ -185,80 +94,187 @@ export class OpenRouterProvider extends BaseAIProvider {
     this.info.models = this.models;
   }
 
-  async complete(modelId: string, params: CompletionParams): Promise<CompletionResponse> {
-    if (!this.isConfigured() && !process.env.OPENROUTER_API_KEY) {
-      throw this.createError('OpenRouter provider is not configured. Please provide an API key.');
+  /**
+   * Replace the built-in models with OpenRouter's live catalog, with
+   * `modelOverrides` from the config merged over each entry. The catalog is
+   * cached for an hour; throws if it cannot be fetched, leaving the current
+   * models in place.
+   */
+  async syncCatalog(force = false): Promise<ModelMetadata[]> {
+    if (!force) {
+      if (this.syncedAt && Date.now() - this.syncedAt < CATALOG_TTL_MS) {
+        return this.models;
+      }
+      if (this.failedAt && Date.now() - this.failedAt < CATALOG_RETRY_MS) {
+        throw this.createError('OpenRouter model catalog is unavailable', 'network');
+      }
     }
 
-    const model = this.getModel(modelId);
-    if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
-    }
+    // Requests arriving while a sync is in flight share it
+    this.pendingSync ??= this.fetchCatalog().finally(() => {
+      this.pendingSync = undefined;
+    });
+    return this.pendingSync;
+  }
 
+  /**
+   * When the catalog was last synced, or undefined while the built-in models are in use
+   */
+  get catalogSyncedAt(): Date | undefined {
+    return this.syncedAt ? new Date(this.syncedAt) : undefined;
+  }
+
+  private async fetchCatalog(): Promise<ModelMetadata[]> {
     try {
-      // Make actual API call through our route handler
-      const response = await fetch('/api/complete', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          provider: 'openrouter',
-          modelId,
-          prompt: params.prompt,
-          systemMessage: params.systemMessage,
-          temperature: params.temperature,
-          maxTokens: params.maxTokens,
-          topP: params.topP,
-          apiKey: this.config.apiKey,
-          useOpenRouter: true
-        }),
+      const { data } = await axios.get(`${this.config.baseUrl || OPENROUTER_API_URL}/models`, {
+        headers: this.config.headers,
+        timeout: CATALOG_TIMEOUT_MS,
       });
+      const overrides = this.config.modelOverrides || {};
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.details || error.error || 'API request failed');
-      }
+      this.models = (data.data || [])
+        .filter(isTextModel)
+        .map((entry: any) => {
+          const model = toModelMetadata(entry);
+          const override = overrides[model.id];
+          return override
+            ? { ...model, ...override, capabilities: { ...model.capabilities, ...override.capabilities } }
+            : model;
+        });
+      this.info.models = this.models;
+      this.syncedAt = Date.now();
+      this.failedAt = undefined;
+      return this.models;
+    } catch (error) {
+      // The current models, synced earlier or built in, stay in place
+      this.failedAt = Date.now();
+      throw await this.toProviderError(error);
+    }
+  }
+
+  async complete(modelId: string, params: CompletionParams, options?: RequestOptions): Promise<CompletionResponse> {
+    this.requireModel(modelId, params);
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: { data }, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getCompletionsUrl(),
+        this.toOpenRouterRequest(modelId, params),
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal }
+      ));
+
+      const usage = chatCompletionUsage(data.usage);
 
-      const data = await response.json();
-      
-      // Calculate cost based on model pricing
-      const cost = this.estimateCost(modelId, data.inputTokens, data.outputTokens);
-      
       return {
-        ...data,
-        cost,
+        content: data.choices?.[0]?.message?.content || '',
+        toolCalls: fromOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls),
+        model: modelId,
+        ...usage,
+        ...this.priceUsage(modelId, usage),
+        duration: Date.now() - startTime,
         metadata: {
-          ...data.metadata,
-          openRouterModel: model.id,
-          provider: 'openrouter',
+          ...this.getMetadata(),
+          finishReason: data.choices?.[0]?.finish_reason,
+          retry,
+        },
+      };
+    } catch (error) {
+      throw await this.toProviderError(error, options?.signal);
+    }
+  }
+
+  async *completeStream(modelId: string, params: CompletionParams, options?: RequestOptions): AsyncGenerator<CompletionChunk> {
+    const model = this.requireModel(modelId, params);
+    // Tool calls are only used once complete, so requests with tools are not streamed
+    if (!model.supportsStreaming || params.tools?.length) {
+      yield* super.completeStream(modelId, params, options);
+      return;
+    }
+
+    const apiKey = this.getApiKey(options);
+    const startTime = Date.now();
+
+    try {
+      const { result: response, retry } = await this.sendWithRetry(options, () => axios.post(
+        this.getCompletionsUrl(),
+        { ...this.toOpenRouterRequest(modelId, params), stream: true, usage: { include: true } },
+        { headers: this.getHeaders(apiKey), timeout: this.config.timeout, signal: options?.signal, responseType: 'stream' }
+      ));
+
+      const updates = async function* (): AsyncGenerator<StreamUpdate> {
+        for await (const message of parseSSE(response.data)) {
+          if (message.data === '[DONE]') break;
+          const chunk = JSON.parse(message.data);
+          if (chunk.error) {
+            // Upstream errors after the response started; `code` is an HTTP status
+            const status = typeof chunk.error.code === 'number' ? chunk.error.code : undefined;
+            throw new ProviderError(
+              `OpenRouter API error: ${chunk.error.message || 'stream error'}`,
+              classifyError(status, chunk),
+              status
+            );
+          }
+          yield chatCompletionUpdate(chunk);
         }
       };
+
+      yield* this.collectStream(modelId, updates(), { ...this.getMetadata(), streamed: true, retry }, startTime);
     } catch (error) {
-      if (error instanceof Error) {
-        throw this.createError(
-          `OpenRouter API error: ${error.message}`,
-          'API_ERROR',
-          undefined,
-          { originalError: error }
-        );
-      }
-      throw error;
+      throw await this.toProviderError(error, options?.signal);
     }
   }
 
   /**
-   * OpenRouter-specific method to check model availability
+   * Convert parameters to the OpenAI-compatible format OpenRouter expects
+   */
+  private toOpenRouterRequest(modelId: string, params: CompletionParams) {
+    const { temperature, maxTokens, topP, stopSequences } = this.withDefaults(params);
+
+    return {
+      model: modelId,
+      messages: toConversation(params).map(toOpenAIMessage),
+      tools: params.tools?.length ? toOpenAITools(params.tools) : undefined,
+      response_format: toOpenAIResponseFormat(params.responseFormat),
+      temperature,
+      max_tokens: maxTokens,
+      top_p: topP,
+      stop: stopSequences,
+    };
+  }
+
+  private getCompletionsUrl(): string {
+    return `${this.config.baseUrl || OPENROUTER_API_URL}/chat/completions`;
+  }
+
+  private getHeaders(apiKey: string) {
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001',
+      'X-Title': 'PromptDotModel',
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+  }
+
+  private getMetadata() {
+    return {
+      provider: this.info.name,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Whether OpenRouter currently lists a model, falling back to the models
+   * already known if the catalog cannot be synced
    */
   async checkModelAvailability(modelId: string): Promise<boolean> {
     try {
-      // In a real implementation, this would check the OpenRouter API
-      // to see if the model is currently available
-      return true;
+      await this.syncCatalog();
     } catch (error) {
       console.error(`Failed to check model availability: ${modelId}`, error);
-      return false;
     }
+    return !!this.getModel(modelId);
   }
 
   /**
@@ -267,7 +283,7 @@ export class OpenRouterProvider extends BaseAIProvider {
   getRecommendedSettings(modelId: string): Partial<CompletionParams> {
     const model = this.getModel(modelId);
     if (!model) {
-      throw this.createError(`Model not found: ${modelId}`, 'MODEL_NOT_FOUND');
+      throw this.createError(`Model not found: ${modelId}`, 'model_not_found', 404);
     }
 
     const baseSettings: Partial<CompletionParams> = {
@@ -0,0 +1,26 @@
+import { CostBreakdown, ModelMetadata, TokenUsage } from './types';
+
+/**
+ * Price a completion's token usage using the model's per-1k-token rates.
+ * Cached input and reasoning tokens fall back to the regular input and
+ * output rates when the model does not define a separate tier.
+ */
+export function calculateCost(model: ModelMetadata, usage: TokenUsage): CostBreakdown {
+  const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+  const reasoningTokens = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens);
+
+  const input = ((usage.inputTokens - cachedInputTokens) / 1000) * model.inputCostPer1kTokens;
+  const cachedInput =
+    (cachedInputTokens / 1000) * (model.cachedInputCostPer1kTokens ?? model.inputCostPer1kTokens);
+  const output = ((usage.outputTokens - reasoningTokens) / 1000) * model.outputCostPer1kTokens;
+  const reasoning =
+    (reasoningTokens / 1000) * (model.reasoningCostPer1kTokens ?? model.outputCostPer1kTokens);
+
+  return {
+    input,
+    cachedInput,
+    output,
+    reasoning,
+    total: input + cachedInput + output + reasoning,
+  };
+}
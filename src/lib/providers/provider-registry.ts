@@ -2,7 +2,12 @@ import { AIProvider } from './base-provider';
 import { AnthropicProvider } from './anthropic-provider';
 import { OpenAIProvider } from './openai-provider';
 import { OpenRouterProvider } from './openrouter-provider';
+import { GoogleProvider } from './google-provider';
+import { OllamaProvider } from './ollama-provider';
+import { getModelStatus } from './catalog';
 import {
+  AvailableModel,
+  ModelAvailability,
   ProviderConfig,
   ProviderName,
   ProviderInfo,
@@ -17,12 +22,21 @@ import {
 export class ProviderRegistry {
   private providers: Map<ProviderName, AIProvider> = new Map();
   private static instance: ProviderRegistry;
+  /** Registered by discoverOllama only while the daemon is reachable */
+  private readonly ollama = new OllamaProvider();
 
   private constructor() {
-    // Initialize with default providers
+    this.registerDefaultProviders();
+  }
+
+  /**
+   * Register the providers that are always available; Ollama is added by discoverOllama
+   */
+  private registerDefaultProviders(): void {
     this.registerProvider('anthropic', new AnthropicProvider());
     this.registerProvider('openai', new OpenAIProvider());
     this.registerProvider('openrouter', new OpenRouterProvider());
+    this.registerProvider('google', new GoogleProvider());
   }
 
   /**
@@ -42,6 +56,81 @@ export class ProviderRegistry {
     this.providers.set(name, provider);
   }
 
+  /**
+   * Register the Ollama provider if its daemon is reachable, refreshing its
+   * installed models, and unregister it otherwise. Returns whether it is
+   * available.
+   */
+  async discoverOllama(): Promise<boolean> {
+    const reachable = await this.ollama.isReachable();
+    if (reachable) {
+      this.registerProvider('ollama', this.ollama);
+    } else {
+      this.providers.delete('ollama');
+    }
+    return reachable;
+  }
+
+  /**
+   * Sync OpenRouter's model catalog (cached by the provider). Returns whether
+   * a live catalog is in use; if not, the built-in models remain.
+   */
+  async syncOpenRouterCatalog(): Promise<boolean> {
+    const provider = this.getProvider('openrouter');
+    if (!(provider instanceof OpenRouterProvider)) {
+      return false;
+    }
+
+    try {
+      await provider.syncCatalog();
+    } catch (error) {
+      console.error('Failed to sync the OpenRouter model catalog:', error);
+    }
+    return provider.catalogSyncedAt !== undefined;
+  }
+
+  /**
+   * All models with availability flags, after checking Ollama and syncing
+   * OpenRouter's catalog. `storedKeys` names the providers the browser holds
+   * an API key for; those keys are sent with each request rather than here.
+   */
+  async listModels(storedKeys: ProviderName[] = []): Promise<AvailableModel[]> {
+    // Ollama is only registered while reachable, so its models need no flag
+    const [, openRouterSynced] = await Promise.all([this.discoverOllama(), this.syncOpenRouterCatalog()]);
+
+    return this.getAllProviders().flatMap(provider => {
+      const { name, requiresApiKey, apiKeyEnvVar, displayName } = provider.info;
+
+      let keySource: ModelAvailability['keySource'] = 'missing';
+      if (!requiresApiKey) {
+        keySource = 'not_required';
+      } else if (storedKeys.includes(name)) {
+        keySource = 'stored';
+      } else if (provider.isConfigured() || (apiKeyEnvVar && process.env[apiKeyEnvVar])) {
+        keySource = 'server';
+      }
+      const reachable = name !== 'openrouter' || openRouterSynced;
+
+      let reason: string | undefined;
+      if (keySource === 'missing') {
+        reason = apiKeyEnvVar
+          ? `No API key: set ${apiKeyEnvVar} or add one for ${displayName} in Settings`
+          : `No ${displayName} API key configured`;
+      } else if (!reachable) {
+        reason = `${displayName} could not be reached`;
+      }
+
+      return provider.models.map(model => {
+        const status = getModelStatus(model);
+        const modelReason = reason ?? (status === 'retired' ? `Retired on ${model.retiresAt}` : undefined);
+        return {
+          ...model,
+          availability: { available: !modelReason, keySource, reachable, status, reason: modelReason },
+        };
+      });
+    });
+  }
+
   /**
    * Get a provider by name
    */
@@ -83,10 +172,15 @@ export class ProviderRegistry {
   }
 
   /**
-   * Find a model by its ID across all providers
+   * Find a model by its ID across all providers, or within a single
+   * provider when its name is given
    */
-  findModel(modelId: string): { provider: AIProvider; model: ModelMetadata } | undefined {
-    for (const provider of Array.from(this.providers.values())) {
+  findModel(modelId: string, providerName?: ProviderName): { provider: AIProvider; model: ModelMetadata } | undefined {
+    const candidates = providerName
+      ? [this.getProvider(providerName)].filter((p): p is AIProvider => !!p)
+      : Array.from(this.providers.values());
+    
+    for (const provider of candidates) {
       const model = provider.getModel(modelId);
       if (model) {
         return { provider, model };
@@ -110,7 +204,7 @@ export class ProviderRegistry {
   /**
    * Configure multiple providers at once
    */
-  async configureProviders(configs: Record<ProviderName, ProviderConfig>): Promise<void> {
+  async configureProviders(configs: Partial<Record<ProviderName, ProviderConfig>>): Promise<void> {
     const configPromises = Object.entries(configs).map(([providerName, config]) =>
       this.configureProvider(providerName as ProviderName, config)
     );
@@ -236,9 +330,7 @@ export class ProviderRegistry {
    */
   reset(): void {
     this.providers.clear();
-    this.registerProvider('anthropic', new AnthropicProvider());
-    this.registerProvider('openai', new OpenAIProvider());
-    this.registerProvider('openrouter', new OpenRouterProvider());
+    this.registerDefaultProviders();
   }
 }
 
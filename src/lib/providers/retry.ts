@@ -0,0 +1,193 @@
+/**
+ * Retry policy shared by the providers: exponential backoff with full jitter,
+ * honoring the server's `retry-after` and rate-limit reset headers.
+ */
+
+import axios from 'axios';
+import { APIConnectionError } from 'openai';
+import { classifyError } from './errors';
+import { isAbortError } from './streaming';
+import { RetryInfo, RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  retryableStatuses: [408, 429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * Merge a provider's retry settings over the defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+type HeaderSource = { get(name: string): string | null } | Record<string, unknown> | undefined;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Parse an OpenAI-style reset duration such as `1s`, `6m0s` or `250ms`
+ */
+function parseDuration(value: string): number | undefined {
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return undefined;
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    return total + parseFloat(amount) * units[unit];
+  }, 0);
+}
+
+/**
+ * Delay requested by the server, in milliseconds. Reads `retry-after-ms`,
+ * `retry-after` (seconds or an HTTP date) and, for 429 responses only,
+ * Anthropic's `anthropic-ratelimit-*-reset` timestamps and OpenAI's
+ * `x-ratelimit-reset-*` durations. Those describe the rate-limit window and
+ * are sent with every response, so on other errors they say nothing about
+ * when to retry.
+ */
+export function getRetryAfterMs(headers: HeaderSource, status?: number, now: number = Date.now()): number | undefined {
+  const retryAfterMs = readHeader(headers, 'retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  if (status !== 429) return undefined;
+
+  // Only one limit is exhausted at a time, so wait for the latest reset
+  const resets: number[] = [];
+  for (const name of ['anthropic-ratelimit-requests-reset', 'anthropic-ratelimit-tokens-reset']) {
+    const value = readHeader(headers, name);
+    const date = value ? Date.parse(value) : NaN;
+    if (!Number.isNaN(date)) resets.push(Math.max(0, date - now));
+  }
+  for (const name of ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']) {
+    const value = readHeader(headers, name);
+    const duration = value ? parseDuration(value) : undefined;
+    if (duration !== undefined) resets.push(duration);
+  }
+
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Backoff before retry number `retry` (1-based), with full jitter
+ */
+export function computeBackoffMs(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const base = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1);
+  return Math.round(random() * Math.min(base, policy.maxDelayMs));
+}
+
+/**
+ * Status code, headers and body of a failed request, from axios or the OpenAI SDK
+ */
+function getErrorResponse(error: unknown): { status?: number; headers?: HeaderSource; body?: unknown } {
+  if (axios.isAxiosError(error)) {
+    return { status: error.response?.status, headers: error.response?.headers as HeaderSource, body: error.response?.data };
+  }
+  if (typeof error === 'object' && error !== null && 'status' in error) {
+    const headers = 'headers' in error && typeof error.headers === 'object' && error.headers !== null
+      ? error.headers as HeaderSource
+      : undefined;
+    return {
+      status: typeof error.status === 'number' ? error.status : undefined,
+      headers,
+      body: 'error' in error ? error.error : undefined,
+    };
+  }
+  return {};
+}
+
+/**
+ * Whether a request failed before getting a response, e.g. a refused
+ * connection, a reset socket or a time-out
+ */
+function isNetworkError(error: unknown): boolean {
+  if (axios.isAxiosError(error)) return !error.response && !!error.request;
+  return error instanceof APIConnectionError;
+}
+
+/**
+ * Whether a failed request should be retried: network errors and the
+ * policy's statuses (time-outs, rate limits and server errors). Anything
+ * else, including errors in our own code, fails at once; aborted requests
+ * are never retried.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (isAbortError(error)) return false;
+  if (isNetworkError(error)) return true;
+
+  const { status, body } = getErrorResponse(error);
+  // An exhausted quota is also a 429 (OpenAI's insufficient_quota), but waiting cannot fix it
+  if (classifyError(status, body, error) === 'quota_exceeded') return false;
+  return status !== undefined && policy.retryableStatuses.includes(status);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `request`, retrying retryable failures according to `policy`. The
+ * server's requested delay wins over the computed backoff; when it is longer
+ * than `maxDelayMs` the error is thrown rather than retried early. Throws the
+ * last error once attempts are exhausted.
+ */
+export async function withRetry<T>(
+  request: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<{ result: T; retry: RetryInfo }> {
+  let waitMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await request(attempt);
+      return { result, retry: { attempts: attempt, waitMs } };
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || signal?.aborted || !isRetryableError(error, policy)) {
+        throw error;
+      }
+
+      const { status, headers } = getErrorResponse(error);
+      const retryAfter = getRetryAfterMs(headers, status);
+      // A retry before the server allows it would only be refused again
+      if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+        throw error;
+      }
+      const delay = retryAfter ?? computeBackoffMs(attempt, policy);
+      await sleep(delay, signal);
+      waitMs += delay;
+    }
+  }
+}
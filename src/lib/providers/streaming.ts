@@ -0,0 +1,281 @@
+/**
+ * Streaming helpers shared by the completion route and its clients.
+ *
+ * Upstream providers stream Server-Sent Events. The /api/complete route
+ * re-encodes them as newline-delimited JSON (NDJSON), one `StreamEvent`
+ * per line, which the browser reads back with `readCompletionStream`.
+ */
+
+import { CompletionChunk, CompletionResponse, ErrorInfo, ProviderError, TokenUsage } from './types';
+import { toErrorInfo } from './errors';
+
+/**
+ * Event written to the NDJSON stream returned by /api/complete
+ */
+export type StreamEvent =
+  | CompletionChunk
+  | {
+      type: 'error';
+      error: ErrorInfo;
+    };
+
+/**
+ * A single Server-Sent Event
+ */
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Incremental update read from an upstream provider stream
+ */
+export interface StreamUpdate {
+  /** Newly generated text */
+  content?: string;
+  /** Input token count, if the provider reported it */
+  inputTokens?: number;
+  /** Output token count, if the provider reported it */
+  outputTokens?: number;
+  /** Cached input token count, if the provider reported it */
+  cachedInputTokens?: number;
+  /** Reasoning token count, if the provider reported it */
+  reasoningTokens?: number;
+}
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Map an OpenAI-compatible `usage` object (OpenAI, OpenRouter) to token usage
+ */
+export function chatCompletionUsage(usage: any): TokenUsage {
+  return {
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+    cachedInputTokens: usage?.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+/**
+ * Map an OpenAI-compatible chat completion chunk (OpenAI, OpenRouter) to a stream update
+ */
+export function chatCompletionUpdate(chunk: any): StreamUpdate {
+  return {
+    content: chunk.choices?.[0]?.delta?.content || undefined,
+    ...(chunk.usage ? chatCompletionUsage(chunk.usage) : {}),
+  };
+}
+
+/**
+ * Whether an error was caused by aborting a request, whether thrown by
+ * `fetch` (AbortError) or axios (CanceledError)
+ */
+export function isAbortError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: string; code?: string };
+  return name === 'AbortError' || name === 'CanceledError' || code === 'ERR_CANCELED';
+}
+
+/**
+ * Parse a byte or text stream into Server-Sent Events.
+ * Comment lines (keep-alives) are skipped.
+ */
+export async function* parseSSE(
+  source: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<SSEMessage> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      if (line === '') {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        event = undefined;
+        data = [];
+        continue;
+      }
+
+      if (line.startsWith(':')) {
+        continue;
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Parse a byte or text stream of newline-delimited JSON (as streamed by
+ * Ollama) into objects. Blank lines are skipped.
+ */
+export async function* parseNDJSON(
+  source: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer);
+  }
+}
+
+/**
+ * Turn provider stream updates into completion chunks, assembling the
+ * final response once the upstream stream ends.
+ */
+export async function* accumulateStream(
+  updates: AsyncIterable<StreamUpdate>,
+  base: Pick<CompletionResponse, 'model' | 'cost' | 'metadata'>,
+  startTime: number = Date.now()
+): AsyncGenerator<CompletionChunk> {
+  let content = '';
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  for await (const update of updates) {
+    if (update.inputTokens !== undefined) usage.inputTokens = update.inputTokens;
+    if (update.outputTokens !== undefined) usage.outputTokens = update.outputTokens;
+    if (update.cachedInputTokens !== undefined) usage.cachedInputTokens = update.cachedInputTokens;
+    if (update.reasoningTokens !== undefined) usage.reasoningTokens = update.reasoningTokens;
+    if (update.content) {
+      content += update.content;
+      yield { type: 'delta', content: update.content };
+    }
+  }
+
+  yield {
+    type: 'done',
+    response: {
+      ...base,
+      ...usage,
+      content,
+      duration: Date.now() - startTime,
+    },
+  };
+}
+
+/**
+ * Wait for the first item of a stream so that setup failures (bad API key,
+ * unknown model) are thrown before a streaming HTTP response is committed
+ */
+export async function primeStream<T>(source: AsyncIterable<T>): Promise<AsyncIterable<T>> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  return (async function* () {
+    if (first.done) return;
+    yield first.value;
+    yield* { [Symbol.asyncIterator]: () => iterator };
+  })();
+}
+
+/**
+ * Encode completion chunks as an NDJSON byte stream. Errors thrown while
+ * iterating are written as a final `error` event instead of aborting the
+ * response mid-stream.
+ */
+export function toNDJSONStream(chunks: AsyncIterable<CompletionChunk>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let event: StreamEvent | null;
+      try {
+        const { value, done } = await iterator.next();
+        event = done ? null : value;
+      } catch (error) {
+        console.error('Streaming error:', error);
+        event = { type: 'error', error: toErrorInfo(error) };
+      }
+
+      if (event) {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      }
+      if (!event || event.type !== 'delta') {
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+/**
+ * Read an NDJSON completion stream returned by /api/complete
+ */
+export async function* readCompletionStream(response: Response): AsyncGenerator<CompletionChunk> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string): CompletionChunk | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as StreamEvent;
+    if (event.type === 'error') {
+      throw ProviderError.fromJSON(event.error);
+    }
+    return event;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const chunk = parseLine(line);
+        if (chunk) yield chunk;
+      }
+    }
+
+    const chunk = parseLine(buffer);
+    if (chunk) yield chunk;
+  } finally {
+    reader.releaseLock();
+  }
+}
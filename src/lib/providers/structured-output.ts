@@ -0,0 +1,130 @@
+import { TOOL_NAME_PATTERN } from './tools';
+import { validateJsonSchema, validateObjectSchema } from './json-schema';
+import { CompletionChunk, CompletionResponse, ResponseFormat, StructuredOutput, ToolDefinition } from './types';
+
+/**
+ * Structured output: asking for JSON, and checking what comes back.
+ *
+ * OpenAI, OpenRouter and custom endpoints take `response_format` natively,
+ * Gemini a response MIME type and schema, and Ollama a `format`. Anthropic
+ * has no JSON mode, so it is offered a single tool whose input schema is the
+ * response schema and made to call it; the call's input becomes the content.
+ */
+
+type JsonFormat = Exclude<ResponseFormat, { type: 'text' }>;
+
+export function isJsonFormat(format: ResponseFormat | undefined): format is JsonFormat {
+  return format?.type === 'json_object' || format?.type === 'json_schema';
+}
+
+/**
+ * Name of the response schema, also used for Anthropic's output tool
+ */
+export function responseFormatName(format: JsonFormat): string {
+  return (format.type === 'json_schema' && format.name) || 'response';
+}
+
+/**
+ * Schema the response must match; any object for `json_object`
+ */
+export function responseSchema(format: JsonFormat): Record<string, any> {
+  return format.type === 'json_schema' ? format.schema : { type: 'object' };
+}
+
+/**
+ * `response_format` of the OpenAI chat completions API
+ */
+export function toOpenAIResponseFormat(format: ResponseFormat | undefined) {
+  if (format?.type === 'json_object') {
+    return { type: 'json_object' as const };
+  }
+  if (format?.type === 'json_schema') {
+    return {
+      type: 'json_schema' as const,
+      json_schema: { name: responseFormatName(format), schema: format.schema, strict: format.strict },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * `format` of Ollama's `/api/chat`: `json`, or the schema itself
+ */
+export function toOllamaFormat(format: ResponseFormat | undefined) {
+  if (format?.type === 'json_object') return 'json';
+  if (format?.type === 'json_schema') return format.schema;
+  return undefined;
+}
+
+/**
+ * Parse JSON content, allowing the Markdown code fence some models wrap it in
+ */
+export function parseJson(content: string): { value?: unknown; error?: string } {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : content) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Parse response content and check it against the requested format
+ */
+export function checkStructuredOutput(content: string, format: JsonFormat): StructuredOutput {
+  const { value, error } = parseJson(content);
+  if (error !== undefined) {
+    return { valid: false, issues: [{ path: '$', message: `is not valid JSON: ${error}` }] };
+  }
+
+  const issues = validateJsonSchema(responseSchema(format), value);
+  return { value, valid: issues.length === 0, issues };
+}
+
+/**
+ * Attach the checked content to a response to a request with a JSON
+ * response format. Other responses, and steps that only call tools, are
+ * returned unchanged.
+ */
+export function withStructuredOutput(response: CompletionResponse, format: ResponseFormat | undefined): CompletionResponse {
+  const onlyCallsTools = !!response.toolCalls?.length && !response.content.trim();
+  return isJsonFormat(format) && !onlyCallsTools
+    ? { ...response, structuredOutput: checkStructuredOutput(response.content, format) }
+    : response;
+}
+
+/**
+ * Check the response in the `done` chunk of a stream, passing deltas through
+ */
+export async function* withStructuredOutputChunks(
+  chunks: AsyncIterable<CompletionChunk>,
+  format: ResponseFormat | undefined
+): AsyncGenerator<CompletionChunk> {
+  for await (const chunk of chunks) {
+    yield chunk.type === 'done' ? { ...chunk, response: withStructuredOutput(chunk.response, format) } : chunk;
+  }
+}
+
+/**
+ * Problem with a requested response format, or null if it can be sent.
+ * Its name must not clash with the tools', as Anthropic offers it as a tool.
+ */
+export function validateResponseFormat(format: ResponseFormat | undefined, tools: ToolDefinition[] = []): string | null {
+  if (format === undefined) return null;
+  if (!['text', 'json_object', 'json_schema'].includes(format?.type)) {
+    return 'responseFormat.type must be text, json_object or json_schema';
+  }
+  if (isJsonFormat(format) && tools.some(tool => tool.name === responseFormatName(format))) {
+    return `responseFormat.name ${responseFormatName(format)} is already a tool name`;
+  }
+  if (format.type !== 'json_schema') return null;
+
+  if (format.name !== undefined && (typeof format.name !== 'string' || !TOOL_NAME_PATTERN.test(format.name))) {
+    return 'responseFormat.name must be 1-64 letters, digits, underscores or hyphens';
+  }
+  if (format.strict !== undefined && typeof format.strict !== 'boolean') {
+    return 'responseFormat.strict must be a boolean';
+  }
+  const issues = validateObjectSchema(format.schema, 'responseFormat.schema');
+  return issues.length > 0 ? issues[0] : null;
+}
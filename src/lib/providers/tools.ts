@@ -0,0 +1,95 @@
+import { formatSchemaIssue, typeOf, validateJsonSchema, validateObjectSchema } from './json-schema';
+import { ModelMetadata, ToolCall, ToolDefinition } from './types';
+
+/**
+ * Tool calling helpers shared by the providers.
+ *
+ * OpenAI, OpenRouter, custom endpoints and Ollama take tools in the OpenAI
+ * `{ type: 'function', function }` shape; Anthropic and Gemini have their own
+ * formats, built in their providers. Calls are normalized to `ToolCall` with
+ * the arguments kept as JSON text, so malformed arguments can be reported
+ * rather than lost.
+ */
+
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(({ name, description, parameters }) => ({
+    type: 'function' as const,
+    function: { name, description, parameters },
+  }));
+}
+
+/**
+ * Normalize `tool_calls` of an OpenAI-format message. Ollama sends
+ * arguments as an object and no IDs, so both are filled in.
+ */
+export function fromOpenAIToolCalls(toolCalls: any[] | undefined): ToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+  return toolCalls.map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.function?.name || '',
+    arguments: typeof call.function?.arguments === 'string'
+      ? call.function.arguments
+      : JSON.stringify(call.function?.arguments ?? {}),
+  }));
+}
+
+/**
+ * Parse a call's arguments, falling back to an empty object for malformed
+ * JSON, for APIs that take arguments as an object
+ */
+export function parseToolArguments(call: ToolCall): Record<string, any> {
+  try {
+    const value = JSON.parse(call.arguments || '{}');
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Problems with a tool call: an unknown tool, arguments that are not a JSON
+ * object, or arguments that do not match the tool's schema
+ */
+export function validateToolCall(tools: ToolDefinition[], call: ToolCall): string[] {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return [`Unknown tool: ${call.name}`];
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    return ['Arguments are not valid JSON'];
+  }
+  if (typeOf(args) !== 'object') {
+    return [`Arguments must be an object, got ${typeOf(args)}`];
+  }
+  return validateJsonSchema(tool.parameters, args).map(formatSchemaIssue);
+}
+
+/**
+ * Problems that keep a tool definition from being sent to a provider
+ */
+export function validateToolDefinition(tool: ToolDefinition): string[] {
+  const issues: string[] = [];
+  if (typeof tool?.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+    issues.push('Tool names must be 1-64 letters, digits, underscores or hyphens');
+  }
+  if (tool?.description !== undefined && typeof tool.description !== 'string') {
+    issues.push('Tool descriptions must be strings');
+  }
+  return [...issues, ...validateObjectSchema(tool?.parameters, 'Tool parameters')];
+}
+
+/**
+ * Why a model cannot take a request with tools, or null if it can
+ */
+export function getToolIssue(model: ModelMetadata, toolCount: number): string | null {
+  if (toolCount > 0 && !model.capabilities.functionCalling) {
+    return `${model.name} does not support tool calling`;
+  }
+  return null;
+}
@@ -15,10 +15,20 @@ export interface ModelMetadata {
   inputCostPer1kTokens: number;
   /** Output cost per 1k tokens in USD */
   outputCostPer1kTokens: number;
+  /** Cost per 1k input tokens served from the prompt cache in USD (defaults to the input rate) */
+  cachedInputCostPer1kTokens?: number;
+  /** Cost per 1k reasoning tokens in USD (defaults to the output rate) */
+  reasoningCostPer1kTokens?: number;
   /** Whether the model supports streaming responses */
   supportsStreaming: boolean;
   /** Additional model capabilities */
   capabilities: ModelCapabilities;
+  /** Other IDs the provider's API accepts for this model, e.g. `claude-3-5-sonnet-latest` */
+  aliases?: string[];
+  /** Date (YYYY-MM-DD) the provider deprecated the model */
+  deprecatedAt?: string;
+  /** Date (YYYY-MM-DD) the provider stops serving the model */
+  retiresAt?: string;
 }
 
 export interface ModelCapabilities {
@@ -32,6 +42,69 @@ export interface ModelCapabilities {
   maxImages?: number;
 }
 
+/**
+ * Where a model is in its provider's lifecycle
+ */
+export type ModelStatus = 'active' | 'deprecated' | 'retired';
+
+/**
+ * Whether the server can run a model right now, as reported by `/api/models`
+ */
+export interface ModelAvailability {
+  /** Whether requests for the model can be expected to succeed */
+  available: boolean;
+  /**
+   * Where the provider's API key comes from: a key stored in the browser,
+   * the server's config or environment, none needed, or none at all
+   */
+  keySource: 'stored' | 'server' | 'not_required' | 'missing';
+  /** Whether the provider answered its last check; hosted APIs are assumed reachable */
+  reachable: boolean;
+  status: ModelStatus;
+  /** Why the model is unavailable */
+  reason?: string;
+}
+
+/**
+ * A model with its availability. Models the server does not list, such as
+ * those of custom endpoints, have none.
+ */
+export interface AvailableModel extends ModelMetadata {
+  availability?: ModelAvailability;
+}
+
+/**
+ * Prices of a model from a given date until the next entry of its history
+ */
+export interface ModelPrice {
+  /** First day (YYYY-MM-DD) the prices apply */
+  effectiveFrom: string;
+  inputCostPer1kTokens: number;
+  outputCostPer1kTokens: number;
+  cachedInputCostPer1kTokens?: number;
+  reasoningCostPer1kTokens?: number;
+}
+
+/**
+ * A model as listed in the catalog, with its full price history
+ */
+export interface CatalogModel extends Omit<ModelMetadata, 'inputCostPer1kTokens' | 'outputCostPer1kTokens' | 'cachedInputCostPer1kTokens' | 'reasoningCostPer1kTokens'> {
+  provider: ProviderName;
+  /** Price history, oldest first */
+  pricing: ModelPrice[];
+}
+
+/**
+ * Contents of catalog.json
+ */
+export interface ModelCatalog {
+  /** Catalog format version */
+  version: number;
+  /** Date (YYYY-MM-DD) the catalog was last edited */
+  updatedAt: string;
+  models: CatalogModel[];
+}
+
 export interface ProviderConfig {
   /** API key for authentication */
   apiKey?: string;
@@ -43,11 +116,159 @@ export interface ProviderConfig {
   headers?: Record<string, string>;
   /** Whether to use OpenRouter as a proxy for this provider */
   useOpenRouter?: boolean;
+  /** Retry policy for rate-limited and failed requests (merged over the defaults) */
+  retry?: Partial<RetryPolicy>;
+  /** Safety filter thresholds (Google only); unset categories use the API's defaults */
+  safetySettings?: SafetySetting[];
+  /** Fields merged over synced catalog entries by model ID (OpenRouter only) */
+  modelOverrides?: Record<string, Partial<ModelMetadata>>;
+}
+
+/**
+ * Gemini safety filter threshold for one harm category
+ */
+export interface SafetySetting {
+  category:
+    | 'HARM_CATEGORY_HARASSMENT'
+    | 'HARM_CATEGORY_HATE_SPEECH'
+    | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+    | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+    | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+  threshold: 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE' | 'OFF';
+}
+
+/**
+ * How failed upstream requests are retried
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first; 1 disables retries */
+  maxAttempts: number;
+  /** Base delay before the first retry in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+  /** Factor the base delay grows by after each attempt */
+  backoffMultiplier: number;
+  /** HTTP status codes that are retried */
+  retryableStatuses: number[];
+}
+
+/**
+ * Retry statistics reported in `CompletionResponse.metadata.retry`
+ */
+export interface RetryInfo {
+  /** Number of attempts made, including the successful one */
+  attempts: number;
+  /** Total time spent waiting between attempts in milliseconds */
+  waitMs: number;
+}
+
+/**
+ * One turn of a multi-turn conversation
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Speaker name, sent natively where the API supports it and prefixed to the content otherwise; for `tool` turns, the tool's name */
+  name?: string;
+  /** Images attached to a user turn */
+  images?: ImageInput[];
+  /** Tools called in an assistant turn */
+  toolCalls?: ToolCall[];
+  /** For `tool` turns, the ID of the call this is the result of */
+  toolCallId?: string;
+}
+
+/**
+ * A problem found when checking a value against a JSON Schema
+ */
+export interface SchemaIssue {
+  /** Path of the offending value, e.g. `$.items[0].name`; `$` is the whole value */
+  path: string;
+  message: string;
+}
+
+/**
+ * Format of the response: free text (the default), any JSON object, or JSON
+ * matching a schema
+ */
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      /** Letters, digits, `_` and `-`, up to 64 characters; defaults to `response` */
+      name?: string;
+      /** JSON Schema of the response object */
+      schema: Record<string, any>;
+      /** Ask the provider to enforce the schema while generating, where supported */
+      strict?: boolean;
+    };
+
+/**
+ * JSON content of a response with a JSON response format, checked against the
+ * requested schema
+ */
+export interface StructuredOutput {
+  /** Parsed content; absent when it is not valid JSON */
+  value?: unknown;
+  /** Whether the content parsed and matched the schema */
+  valid: boolean;
+  issues: SchemaIssue[];
+}
+
+/**
+ * A tool the model may call
+ */
+export interface ToolDefinition {
+  /** Letters, digits, `_` and `-`, up to 64 characters */
+  name: string;
+  description?: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, any>;
+}
+
+/**
+ * A call to a tool, as made by the model
+ */
+export interface ToolCall {
+  /** ID used to match the result to the call; generated for providers that do not assign one */
+  id: string;
+  name: string;
+  /** Arguments as JSON text, exactly as the model produced them */
+  arguments: string;
+}
+
+/**
+ * Image formats every vision-capable provider accepts
+ */
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+/**
+ * An image sent with a prompt, as base64 data rather than a URL so that
+ * providers never need to fetch it
+ */
+export interface ImageInput {
+  mediaType: ImageMediaType;
+  /** Base64-encoded image bytes, without a `data:` prefix */
+  data: string;
+  /** Original file name, for display */
+  name?: string;
 }
 
 export interface CompletionParams {
-  /** The input prompt/message */
+  /** The input prompt/message; in a conversation, the latest user turn */
   prompt: string;
+  /** Earlier turns of a conversation, sent between the system message and `prompt` */
+  messages?: ChatMessage[];
+  /** Images attached to `prompt`; the model must support vision */
+  images?: ImageInput[];
+  /** Tools the model may call; the model must support function calling */
+  tools?: ToolDefinition[];
+  /** Tool calls and their results sent after `prompt`, to continue a tool-calling loop */
+  toolTurns?: ChatMessage[];
+  /** Format the response must take; free text when unset */
+  responseFormat?: ResponseFormat;
   /** Maximum number of tokens to generate */
   maxTokens?: number;
   /** Temperature for randomness (0.0 to 1.0) */
@@ -60,43 +281,209 @@ export interface CompletionParams {
   stream?: boolean;
   /** Stop sequences to end generation */
   stopSequences?: string[];
+  /** Runtime options for models served by Ollama; ignored by other providers */
+  ollamaOptions?: OllamaOptions;
 }
 
-export interface CompletionResponse {
-  /** The generated text response */
-  content: string;
-  /** Model that generated the response */
-  model: string;
+/**
+ * Ollama runtime options, sent in the request's `options`
+ */
+export interface OllamaOptions {
+  /** Context window to load the model with (`num_ctx`) */
+  numCtx?: number;
+  /** Seed for reproducible sampling */
+  seed?: number;
+  /** Penalty for repeated tokens (`repeat_penalty`), 1 disables it */
+  repeatPenalty?: number;
+}
+
+/**
+ * Per-request options that override the provider's configuration
+ */
+export interface RequestOptions {
+  /** API key to use for this request instead of the configured one */
+  apiKey?: string;
+  /** Aborts the upstream request when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Body accepted by the /api/complete route
+ */
+export interface CompletionRequest extends CompletionParams {
+  /** Model to run the completion against */
+  modelId: string;
+  /** Provider that owns the model, used to disambiguate model IDs */
+  provider?: ProviderName;
+  /** API key to use instead of the server's environment variable */
+  apiKey?: string;
+  /** Endpoint to send the request to when `provider` is `custom` */
+  endpoint?: CustomEndpoint;
+}
+
+/**
+ * A user-registered OpenAI-compatible server, e.g. vLLM, llama.cpp or Ollama
+ */
+export interface CustomEndpoint {
+  /** Stable ID, used to namespace the endpoint's model IDs */
+  id: string;
+  /** Display name shown next to the endpoint's models */
+  name: string;
+  /** Base URL the `/chat/completions` path is appended to, e.g. `http://localhost:8000/v1` */
+  baseUrl: string;
+  /** Sent as a bearer token, if the server requires one */
+  apiKey?: string;
+  /** Additional headers to send with requests */
+  headers?: Record<string, string>;
+  models: CustomEndpointModel[];
+}
+
+export interface CustomEndpointModel {
+  /** Model name sent to the server */
+  id: string;
+  /** Human-readable name, defaults to the ID */
+  name?: string;
+  /** Context window in tokens */
+  maxTokens: number;
+  /** Input cost per 1k tokens in USD, 0 for self-hosted models */
+  inputCostPer1kTokens: number;
+  /** Output cost per 1k tokens in USD, 0 for self-hosted models */
+  outputCostPer1kTokens: number;
+  /** Whether the server streams this model's responses */
+  supportsStreaming: boolean;
+}
+
+/**
+ * Token counts reported for a completion
+ */
+export interface TokenUsage {
   /** Number of tokens in the input */
   inputTokens: number;
   /** Number of tokens in the output */
   outputTokens: number;
+  /** Input tokens served from the prompt cache (included in inputTokens) */
+  cachedInputTokens?: number;
+  /** Hidden reasoning tokens (included in outputTokens) */
+  reasoningTokens?: number;
+}
+
+/**
+ * Cost of a completion split by token type, in USD
+ */
+export interface CostBreakdown {
+  /** Cost of uncached input tokens */
+  input: number;
+  /** Cost of cached input tokens */
+  cachedInput: number;
+  /** Cost of visible output tokens */
+  output: number;
+  /** Cost of reasoning tokens */
+  reasoning: number;
+  /** Sum of all components */
+  total: number;
+}
+
+export interface CompletionResponse extends TokenUsage {
+  /** The generated text response */
+  content: string;
+  /** Model that generated the response */
+  model: string;
   /** Time taken to generate the response in milliseconds */
   duration: number;
   /** Cost of the request in USD */
   cost: number;
+  /** Cost of the request split by token type */
+  costBreakdown?: CostBreakdown;
+  /** Tools the model called instead of, or alongside, answering */
+  toolCalls?: ToolCall[];
+  /** Parsed and checked content, for requests with a JSON response format */
+  structuredOutput?: StructuredOutput;
   /** Any additional metadata from the provider */
   metadata?: Record<string, any>;
 }
 
+/**
+ * A single event emitted while a completion is being streamed
+ */
+export type CompletionChunk =
+  | {
+      type: 'delta';
+      /** Text generated since the previous chunk */
+      content: string;
+    }
+  | {
+      type: 'done';
+      /** The assembled response, including token usage */
+      response: CompletionResponse;
+    };
+
+/**
+ * Normalized error codes, parsed from each provider's error responses
+ */
+export type ErrorCode =
+  | 'auth_failed'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'context_length_exceeded'
+  | 'content_filtered'
+  | 'model_not_found'
+  | 'timeout'
+  | 'network'
+  | 'invalid_request'
+  | 'overloaded'
+  | 'server_error'
+  | 'aborted'
+  | 'unknown';
+
+/**
+ * JSON shape of an error returned by /api/complete, also used for errors
+ * written to a completion stream
+ */
+export interface ErrorInfo {
+  code: ErrorCode;
+  /** Human-readable message, including the upstream provider's wording */
+  message: string;
+  /** HTTP status code if applicable */
+  status?: number;
+  /** Provider that raised the error */
+  provider?: ProviderName;
+}
+
 export class ProviderError extends Error {
-  /** Error code from the provider */
-  code?: string;
+  /** Normalized error code */
+  code: ErrorCode;
   /** HTTP status code if applicable */
   status?: number;
   /** Additional error details */
   details?: Record<string, any>;
+  /** Provider that raised the error */
+  provider?: ProviderName;
   
-  constructor(message: string, code?: string, status?: number, details?: Record<string, any>) {
+  constructor(message: string, code: ErrorCode = 'unknown', status?: number, details?: Record<string, any>) {
     super(message);
     this.name = 'ProviderError';
     this.code = code;
     this.status = status;
     this.details = details;
   }
+  
+  toJSON(): ErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      provider: this.provider,
+    };
+  }
+  
+  static fromJSON(info: ErrorInfo): ProviderError {
+    const error = new ProviderError(info.message, info.code, info.status);
+    error.provider = info.provider;
+    return error;
+  }
 }
 
-export type ProviderName = 'anthropic' | 'openai' | 'openrouter';
+export type ProviderName = 'anthropic' | 'openai' | 'openrouter' | 'google' | 'custom' | 'ollama';
 
 export interface ProviderInfo {
   /** Name of the provider */
@@ -109,6 +496,8 @@ export interface ProviderInfo {
   website: string;
   /** Whether the provider requires an API key */
   requiresApiKey: boolean;
+  /** Environment variable the server reads the API key from */
+  apiKeyEnvVar?: string;
   /** Available models from this provider */
   models: ModelMetadata[];
 }
\ No newline at end of file
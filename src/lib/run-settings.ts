@@ -0,0 +1,53 @@
+/**
+ * System message and sampling parameters applied when running the grid
+ */
+
+import { CompletionParams, ModelMetadata, ResponseFormat } from '@/lib/providers'
+
+export type SamplingParams = Pick<CompletionParams, 'temperature' | 'topP' | 'maxTokens' | 'stopSequences' | 'ollamaOptions'>
+
+export interface RunSettings {
+  /** System message for test cases that do not set their own */
+  systemMessage: string
+  /** Sampling parameters for every column that does not override them */
+  defaults: SamplingParams
+  /** Format every column is asked to respond in; plain text when unset */
+  responseFormat?: ResponseFormat
+}
+
+export const DEFAULT_RUN_SETTINGS: RunSettings = {
+  systemMessage: '',
+  defaults: {
+    temperature: 0.7,
+    maxTokens: 4096
+  }
+}
+
+/**
+ * Merge overrides over the defaults. `maxTokens` is capped at the model's
+ * limit and empty stop sequences are dropped.
+ */
+export function resolveSamplingParams(defaults: SamplingParams, overrides: SamplingParams, model: ModelMetadata): SamplingParams {
+  const params: SamplingParams = { ...defaults }
+
+  for (const key of Object.keys(overrides) as (keyof SamplingParams)[]) {
+    if (overrides[key] !== undefined) {
+      Object.assign(params, { [key]: overrides[key] })
+    }
+  }
+
+  if (params.maxTokens !== undefined) {
+    params.maxTokens = Math.min(params.maxTokens, model.maxTokens)
+  }
+  const stopSequences = params.stopSequences?.filter(Boolean)
+  params.stopSequences = stopSequences && stopSequences.length > 0 ? stopSequences : undefined
+
+  return params
+}
+
+/**
+ * Whether any sampling parameter is overridden
+ */
+export function hasOverrides(overrides: SamplingParams | undefined): boolean {
+  return !!overrides && Object.values(overrides).some(value => value !== undefined)
+}
@@ -0,0 +1,140 @@
+/**
+ * Offline sentiment scoring for the sentiment evaluation
+ *
+ * Each word found in a small lexicon contributes its valence (-3 to +3).
+ * Intensifiers like "very" scale the next word, and negations like "not" or
+ * "isn't" flip and dampen the words after them until the end of the clause.
+ * The sum is squashed into a polarity score from -1 to +1, so no model call
+ * or API key is involved and the same text always gets the same score.
+ */
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative'
+
+/** A lexicon word that counted towards the score */
+export interface SentimentTerm {
+  /** The word, with the negation or intensifier that changed it, e.g. `not good` */
+  text: string
+  valence: number
+}
+
+export interface SentimentResult {
+  /** Polarity from -1 (most negative) to +1 (most positive) */
+  score: number
+  label: SentimentLabel
+  terms: SentimentTerm[]
+}
+
+/** Scores closer to zero than this are neutral */
+export const NEUTRAL_THRESHOLD = 0.05
+
+const LEXICON: Record<string, number> = {
+  // Positive
+  amazing: 3, awesome: 3, brilliant: 3, excellent: 3, exceptional: 3, fantastic: 3, flawless: 3,
+  outstanding: 3, perfect: 3, superb: 3, wonderful: 3, love: 3, loved: 3, delighted: 3,
+  beautiful: 2, best: 2, delightful: 2, enjoy: 2, enjoyed: 2, excited: 2, glad: 2, great: 2,
+  happy: 2, impressive: 2, liked: 2, lovely: 2, pleased: 2, recommend: 2, success: 2,
+  successful: 2, thank: 2, thanks: 2, grateful: 2, elegant: 2, effective: 2, reliable: 2,
+  accurate: 1, better: 1, clear: 1, comfortable: 1, correct: 1, easy: 1, fair: 1, fine: 1,
+  good: 2, helpful: 2, interesting: 1, nice: 2, okay: 1, ok: 1, positive: 2, useful: 2, valuable: 2,
+  win: 2, works: 1, calm: 1, safe: 1, solid: 1, smooth: 1, fast: 1, friendly: 2, kind: 2,
+  hope: 1, hopeful: 2, welcome: 2, benefit: 2, improve: 1, improved: 2, fun: 2, wow: 2,
+  // Negative
+  abysmal: -3, awful: -3, disastrous: -3, disgusting: -3, dreadful: -3, hate: -3, hated: -3,
+  horrible: -3, horrific: -3, terrible: -3, worst: -3, furious: -3, catastrophic: -3, useless: -3,
+  angry: -2, annoying: -2, bad: -2, broken: -2, disappointed: -2, disappointing: -2, dislike: -2,
+  fail: -2, failed: -2, failure: -2, frustrating: -2, frustrated: -2, poor: -2, sad: -2,
+  unhappy: -2, upset: -2, wrong: -2, worse: -2, ugly: -2, painful: -2, problem: -2, problems: -2,
+  mistake: -2, error: -2, errors: -2, harmful: -2, dangerous: -2, unfortunately: -2, sorry: -1,
+  boring: -2, confusing: -2, confused: -1, difficult: -1, hard: -1, slow: -1, unclear: -1,
+  issue: -1, issues: -1, worried: -2, worry: -2, afraid: -2, fear: -2, risk: -1, risky: -2,
+  lose: -2, lost: -2, loss: -2, negative: -2, unfair: -2, unreliable: -2, inaccurate: -2,
+  incorrect: -2, bug: -1, bugs: -1, crash: -2, crashes: -2, lacking: -1, mediocre: -1, meh: -1,
+}
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'nobody', 'neither', 'nor', 'without', 'hardly',
+  'barely', 'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'werent',
+  'wont', 'wouldnt', 'shouldnt', 'couldnt', 'havent', 'hasnt', 'hadnt', 'aint',
+])
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, extremely: 1.8, incredibly: 1.8, absolutely: 1.8, so: 1.3, too: 1.3,
+  highly: 1.5, totally: 1.5, completely: 1.5, truly: 1.5, super: 1.5, quite: 1.2, most: 1.3,
+  slightly: 0.5, somewhat: 0.6, fairly: 0.8, rather: 0.8, kinda: 0.6,
+}
+
+/** How negation changes a word's valence: flipped, and weaker than the plain opposite */
+const NEGATION_FACTOR = -0.75
+/** Words after a negation that it still applies to */
+const NEGATION_SCOPE = 3
+/** Larger values keep scores further from ±1 for the same sum */
+const NORMALIZATION_ALPHA = 15
+
+const TOKEN_PATTERN = /[a-z]+(?:'[a-z]+)?|[.,;:!?]/g
+
+/**
+ * Score the sentiment of a text
+ */
+export function analyzeSentiment(text: string): SentimentResult {
+  const tokens = text.toLowerCase().replace(/[’‘]/g, "'").match(TOKEN_PATTERN) || []
+  const terms: SentimentTerm[] = []
+  let negation: { word: string; remaining: number } | null = null
+  let intensifier: { word: string; factor: number } | null = null
+
+  for (const token of tokens) {
+    if (/^[.,;:!?]$/.test(token)) {
+      // Punctuation ends a negation's clause
+      negation = null
+      intensifier = null
+      continue
+    }
+
+    const word = token.replace(/'/g, '')
+    if (NEGATIONS.has(word) || token.endsWith("n't")) {
+      negation = { word: token, remaining: NEGATION_SCOPE }
+      continue
+    }
+    if (INTENSIFIERS[word] !== undefined) {
+      intensifier = { word: token, factor: INTENSIFIERS[word] }
+      continue
+    }
+
+    const base = LEXICON[word]
+    if (base !== undefined) {
+      let valence = base
+      let phrase = token
+      if (intensifier) {
+        valence *= intensifier.factor
+        phrase = `${intensifier.word} ${phrase}`
+      }
+      if (negation) {
+        valence *= NEGATION_FACTOR
+        phrase = `${negation.word} ${phrase}`
+      }
+      terms.push({ text: phrase, valence: Math.round(valence * 100) / 100 })
+    }
+
+    intensifier = null
+    if (negation && --negation.remaining === 0) {
+      negation = null
+    }
+  }
+
+  const sum = terms.reduce((total, term) => total + term.valence, 0)
+  const score = Math.round((sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)) * 100) / 100
+  const label: SentimentLabel = score >= NEUTRAL_THRESHOLD
+    ? 'positive'
+    : score <= -NEUTRAL_THRESHOLD ? 'negative' : 'neutral'
+
+  return { score, label, terms }
+}
+
+/**
+ * One-line summary of the terms behind a score, e.g. `great +2, not good -1.5`
+ */
+export function describeSentiment(result: SentimentResult): string {
+  if (result.terms.length === 0) return 'no sentiment words found'
+  return result.terms
+    .map(term => `${term.text} ${term.valence > 0 ? '+' : ''}${term.valence}`)
+    .join(', ')
+}
@@ -0,0 +1,300 @@
+/**
+ * Template engine for prompts, system messages and judge prompts
+ *
+ * Syntax:
+ *   {{name}}                      variable, dotted paths allowed (`{{user.name}}`)
+ *   {{name|fallback}}             variable with a default when unbound or empty
+ *   {{#if name}}...{{else}}...{{/if}}
+ *   {{#each items}}...{{/each}}   loop; `{{this}}` is the item, `{{@index}}` its position
+ *   {{! comment }}                ignored
+ *   \{{                           literal `{{`
+ *
+ * Variables bound from datasets are strings, so `#each` also accepts a JSON
+ * array string or newline-separated lines. `#if` treats empty strings, empty
+ * arrays, `false`, `null` and `undefined` as false.
+ */
+
+export type TemplateVariables = Record<string, unknown>
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; defaultValue?: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[] }
+
+/** A placeholder found in a template */
+export interface TemplateVariable {
+  name: string
+  /** Whether the template supplies a default or guards the variable, so it may stay unbound */
+  hasDefault: boolean
+  /** Whether the variable only controls an `#if` or `#each` block */
+  isBlock: boolean
+}
+
+export interface RenderOptions {
+  /** Throw when a variable without a default is unbound instead of rendering it empty */
+  strict?: boolean
+}
+
+export class TemplateError extends Error {
+  /** Character offset in the template source, for syntax errors */
+  position?: number
+  /** Names of unbound variables, for strict rendering errors */
+  unbound?: string[]
+
+  constructor(message: string, position?: number, unbound?: string[]) {
+    super(message)
+    this.name = 'TemplateError'
+    this.position = position
+    this.unbound = unbound
+  }
+}
+
+type Block = Extract<TemplateNode, { type: 'if' | 'each' }>
+
+/**
+ * Parse a template into a node tree
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: { block: Block; position: number; inElse: boolean }[] = []
+  let text = ''
+  let i = 0
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    if (top.block.type === 'each') return top.block.body
+    return top.inElse ? top.block.otherwise : top.block.then
+  }
+
+  const flushText = () => {
+    if (text) current().push({ type: 'text', value: text })
+    text = ''
+  }
+
+  while (i < source.length) {
+    if (source.startsWith('\\{{', i)) {
+      text += '{{'
+      i += 3
+      continue
+    }
+    if (!source.startsWith('{{', i)) {
+      text += source[i]
+      i++
+      continue
+    }
+
+    const end = source.indexOf('}}', i + 2)
+    if (end === -1) {
+      throw new TemplateError('Unclosed "{{"', i)
+    }
+    const tag = source.slice(i + 2, end).trim()
+    const position = i
+    i = end + 2
+    flushText()
+
+    if (tag.startsWith('!')) continue
+
+    const open = tag.match(/^#(if|each)\s+([\w.@]+)$/)
+    if (open) {
+      const block: Block = open[1] === 'if'
+        ? { type: 'if', name: open[2], then: [], otherwise: [] }
+        : { type: 'each', name: open[2], body: [] }
+      current().push(block)
+      stack.push({ block, position, inElse: false })
+      continue
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1]
+      if (!top || top.block.type !== 'if' || top.inElse) {
+        throw new TemplateError('Unexpected {{else}}', position)
+      }
+      top.inElse = true
+      continue
+    }
+
+    const close = tag.match(/^\/(if|each)$/)
+    if (close) {
+      const top = stack.pop()
+      if (!top || top.block.type !== close[1]) {
+        throw new TemplateError(`Unexpected {{/${close[1]}}}`, position)
+      }
+      continue
+    }
+
+    const variable = tag.match(/^([\w.@]+)\s*(?:\|([\s\S]*))?$/)
+    if (!variable) {
+      throw new TemplateError(`Invalid tag "{{${tag}}}"`, position)
+    }
+    current().push(
+      variable[2] !== undefined
+        ? { type: 'variable', name: variable[1], defaultValue: variable[2].trim() }
+        : { type: 'variable', name: variable[1] }
+    )
+  }
+
+  flushText()
+
+  const unclosed = stack.pop()
+  if (unclosed) {
+    throw new TemplateError(`Unclosed {{#${unclosed.block.type} ${unclosed.block.name}}}`, unclosed.position)
+  }
+
+  return root
+}
+
+/**
+ * List the variables a template reads from its caller, in order of first use.
+ * Names inside `#each` bodies resolve against the loop item and are not listed.
+ */
+export function extractVariables(source: string): TemplateVariable[] {
+  const found = new Map<string, TemplateVariable>()
+
+  const add = (name: string, hasDefault: boolean, isBlock: boolean) => {
+    const root = name.split('.')[0]
+    if (root === 'this' || root.startsWith('@')) return
+
+    const existing = found.get(root)
+    if (existing) {
+      existing.hasDefault = existing.hasDefault && hasDefault
+      existing.isBlock = existing.isBlock && isBlock
+    } else {
+      found.set(root, { name: root, hasDefault, isBlock })
+    }
+  }
+
+  // Inside `{{#if name}}`, `{{name}}` and `{{name.field}}` may stay unbound
+  const visit = (nodes: TemplateNode[], guarded: string[]) => {
+    for (const node of nodes) {
+      if (node.type === 'variable') {
+        add(node.name, node.defaultValue !== undefined || guarded.includes(node.name.split('.')[0]), false)
+      } else if (node.type === 'if') {
+        add(node.name, true, true)
+        visit(node.then, [...guarded, node.name])
+        visit(node.otherwise, guarded)
+      } else if (node.type === 'each') {
+        add(node.name, true, true)
+      }
+    }
+  }
+
+  visit(parseTemplate(source), [])
+  return Array.from(found.values())
+}
+
+/**
+ * Names of variables that would stop the template from rendering strictly,
+ * including fields missing from `#each` items. Found by rendering, so the
+ * check and the renderer cannot disagree.
+ */
+export function findUnboundVariables(source: string, variables: TemplateVariables): string[] {
+  const unbound = new Set<string>()
+  renderNodes(parseTemplate(source), [variables], unbound)
+  return Array.from(unbound)
+}
+
+/**
+ * Render a template against a set of variables
+ */
+export function renderTemplate(source: string, variables: TemplateVariables, options: RenderOptions = {}): string {
+  const unbound = new Set<string>()
+  const output = renderNodes(parseTemplate(source), [variables], unbound)
+
+  if (options.strict && unbound.size > 0) {
+    const names = Array.from(unbound)
+    throw new TemplateError(`Unbound template variables: ${names.join(', ')}`, undefined, names)
+  }
+  return output
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateVariables[], unbound: Set<string>): string {
+  let output = ''
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value
+        break
+      case 'variable': {
+        const value = lookup(scopes, node.name)
+        if (!isMissing(value)) {
+          output += stringify(value)
+        } else if (node.defaultValue !== undefined) {
+          output += node.defaultValue
+        } else {
+          unbound.add(node.name)
+        }
+        break
+      }
+      case 'if':
+        output += renderNodes(isTruthy(lookup(scopes, node.name)) ? node.then : node.otherwise, scopes, unbound)
+        break
+      case 'each':
+        toList(lookup(scopes, node.name)).forEach((item, index) => {
+          const scope: TemplateVariables = {
+            ...(item && typeof item === 'object' && !Array.isArray(item) ? item : {}),
+            this: item,
+            '@index': index,
+          }
+          output += renderNodes(node.body, [...scopes, scope], unbound)
+        })
+        break
+    }
+  }
+
+  return output
+}
+
+/** Resolve a dotted path, searching the innermost scope first */
+function lookup(scopes: TemplateVariables[], path: string): unknown {
+  const [head, ...rest] = path.split('.')
+  const scope = [...scopes].reverse().find(s => head in s)
+  if (!scope) return undefined
+
+  return rest.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    scope[head]
+  )
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  return !isMissing(value) && value !== false
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (typeof value !== 'string' || !value.trim()) return []
+
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value)
+      if (Array.isArray(parsed)) return parsed
+    } catch {
+      // Not JSON; fall back to lines
+    }
+  }
+  return value.split(/\r?\n/).filter(line => line.trim())
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Rewrite the legacy single-brace `{input}` / `{output}` judge placeholders
+ * to template variables
+ */
+export function upgradeLegacyPlaceholders(source: string): string {
+  return source.replace(/(\{+)(input|output)(\}+)/g, (match, open: string, name: string, close: string) =>
+    open.length === 1 && close.length === 1 ? `{{${name}}}` : match
+  )
+}
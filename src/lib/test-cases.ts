@@ -0,0 +1,155 @@
+/**
+ * Test cases (dataset rows) and per-cell results for the comparison grid
+ */
+
+import { ChatMessage, CompletionResponse, ErrorInfo, ImageInput } from '@/lib/providers'
+import { SentimentResult } from '@/lib/sentiment'
+import { TemplateError, findUnboundVariables, renderTemplate } from '@/lib/templates'
+
+export interface TestCase {
+  id: string
+  name: string
+  prompt: string
+  /** System message sent with the prompt */
+  systemMessage?: string
+  /** Values for template variables, keyed by variable name */
+  variables?: Record<string, string>
+  /** Reference output the responses are expected to match */
+  expectedOutput?: string
+  /** Images attached to the prompt, sent to vision-capable models */
+  images?: ImageInput[]
+}
+
+/** Result of running one test case against one grid column (model variant) */
+export interface CellResult {
+  response: CompletionResponse | null
+  streamedContent?: string
+  error: ErrorInfo | null
+  isLoading: boolean
+  /** Set when the run was stopped before finishing; `streamedContent` keeps the partial output */
+  aborted?: boolean
+  /** Conversation sent for `response`: the turns up to the latest user turn, then the steps of any tool-calling loop */
+  thread?: ChatMessage[]
+}
+
+export interface EvalResult {
+  evalId: string
+  testCaseId: string
+  variantId: string
+  result: string | null
+  /** Score and label of a sentiment eval; `result` lists the words behind it */
+  sentiment?: SentimentResult
+  /** Score and verdict of a custom script or judge; `result` is its explanation */
+  score?: number
+  pass?: boolean
+  /** A judge's score as it gave it, e.g. `8/10` or `B+` */
+  scoreLabel?: string
+  /** Why a judge's score could not be read; `result` is its raw output */
+  parseError?: string
+  /** Lines the script logged with `console` */
+  logs?: string[]
+  isLoading: boolean
+  error: string | null
+}
+
+export const EMPTY_CELL_RESULT: CellResult = {
+  response: null,
+  error: null,
+  isLoading: false
+}
+
+/**
+ * Key of a grid cell in the results map
+ */
+export function cellKey(testCaseId: string, variantId: string): string {
+  return `${testCaseId}::${variantId}`
+}
+
+function generateId(): string {
+  return `tc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Default name for the next test case, e.g. `prompt_003`
+ */
+export function nextTestCaseName(testCases: TestCase[]): string {
+  const highest = testCases.reduce((max, testCase) => {
+    const match = testCase.name.match(/^prompt_(\d+)$/)
+    return match ? Math.max(max, parseInt(match[1], 10)) : max
+  }, 0)
+  return `prompt_${String(Math.max(highest, testCases.length) + 1).padStart(3, '0')}`
+}
+
+export function createTestCase(testCases: TestCase[], fields: Partial<Omit<TestCase, 'id'>> = {}): TestCase {
+  return {
+    id: generateId(),
+    name: nextTestCaseName(testCases),
+    prompt: '',
+    ...fields
+  }
+}
+
+/**
+ * Copy a test case and insert the copy directly below the original
+ */
+export function duplicateTestCase(testCases: TestCase[], id: string): TestCase[] {
+  const index = testCases.findIndex(t => t.id === id)
+  if (index === -1) return testCases
+
+  const copy: TestCase = {
+    ...testCases[index],
+    id: generateId(),
+    name: `${testCases[index].name}_copy`
+  }
+  return [...testCases.slice(0, index + 1), copy, ...testCases.slice(index + 1)]
+}
+
+/**
+ * Move a test case one position up or down
+ */
+export function moveTestCase(testCases: TestCase[], id: string, direction: 'up' | 'down'): TestCase[] {
+  const index = testCases.findIndex(t => t.id === id)
+  const target = direction === 'up' ? index - 1 : index + 1
+  if (index === -1 || target < 0 || target >= testCases.length) return testCases
+
+  const reordered = [...testCases]
+  ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+  return reordered
+}
+
+/**
+ * Template problems that would stop a test case from running: syntax errors
+ * and variables that are neither bound nor defaulted
+ */
+export function getTemplateIssues(testCase: TestCase, defaultSystemMessage = ''): string[] {
+  const issues: string[] = []
+  const unbound = new Set<string>()
+
+  for (const source of [testCase.prompt, testCase.systemMessage || defaultSystemMessage]) {
+    try {
+      findUnboundVariables(source, testCase.variables || {}).forEach(name => unbound.add(name))
+    } catch (error) {
+      issues.push(error instanceof TemplateError ? error.message : String(error))
+    }
+  }
+  if (unbound.size > 0) {
+    issues.push(`Unbound template variables: ${Array.from(unbound).join(', ')}`)
+  }
+  return issues
+}
+
+/**
+ * Render the prompt and system message templates of a test case, using
+ * `defaultSystemMessage` when the test case has none of its own.
+ * Throws a `TemplateError` when a variable is unbound.
+ */
+export function renderTestCase(testCase: TestCase, defaultSystemMessage = ''): { prompt: string; systemMessage?: string } {
+  const variables = testCase.variables || {}
+  const systemMessage = testCase.systemMessage || defaultSystemMessage
+  return {
+    prompt: renderTemplate(testCase.prompt, variables, { strict: true }),
+    systemMessage: systemMessage.trim()
+      ? renderTemplate(systemMessage, variables, { strict: true })
+      : undefined
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Tools defined in the UI, and the mock executors that answer their calls
+ * during a tool-calling loop
+ */
+
+import { CompletionResponse, ToolCall, ToolDefinition } from '@/lib/providers'
+import { runInWorker } from '@/lib/worker-sandbox'
+
+/** How long a mock function may run before its worker is terminated */
+export const TOOL_MOCK_TIME_LIMIT_MS = 5000
+
+/**
+ * How a tool's results are produced: a fixed response, or the body of a local
+ * JavaScript function that receives the parsed arguments as `args`
+ */
+export type ToolMock =
+  | { type: 'static'; response: string }
+  | { type: 'function'; source: string }
+
+export interface ToolConfig {
+  id: string
+  definition: ToolDefinition
+  mock: ToolMock
+}
+
+export interface ToolSettings {
+  tools: ToolConfig[]
+  /** Answer tool calls with the mocks and send the results back to the model */
+  loop: boolean
+  /** Most model calls per cell in a loop, including the first */
+  maxSteps: number
+}
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  tools: [],
+  loop: false,
+  maxSteps: 5
+}
+
+function generateId(): string {
+  return `tool_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * A new tool with an example weather lookup, named so it does not clash
+ * with existing tools
+ */
+export function createTool(tools: ToolConfig[]): ToolConfig {
+  const names = new Set(tools.map(tool => tool.definition.name))
+  let name = 'get_weather'
+  for (let n = 2; names.has(name); n++) {
+    name = `get_weather_${n}`
+  }
+
+  return {
+    id: generateId(),
+    definition: {
+      name,
+      description: 'Get the current weather for a city',
+      parameters: {
+        type: 'object',
+        properties: {
+          city: { type: 'string', description: 'City name, e.g. Paris' },
+          unit: { type: 'string', enum: ['celsius', 'fahrenheit'] }
+        },
+        required: ['city']
+      }
+    },
+    mock: { type: 'static', response: '{"temperature": 21, "conditions": "sunny"}' }
+  }
+}
+
+/**
+ * Answer a tool call with its tool's mock. Failures are returned as the
+ * result text, so the model sees them as it would a real tool error.
+ */
+export async function runToolMock(tools: ToolConfig[], call: ToolCall): Promise<string> {
+  const tool = tools.find(t => t.definition.name === call.name)
+  if (!tool) {
+    return `Error: unknown tool ${call.name}`
+  }
+  if (tool.mock.type === 'static') {
+    return tool.mock.response
+  }
+
+  let args: unknown
+  try {
+    args = JSON.parse(call.arguments || '{}')
+  } catch {
+    args = call.arguments
+  }
+  // User-written code, run in a worker so an endless loop cannot freeze the page
+  const outcome = await runInWorker({
+    params: ['args'],
+    body: `"use strict";\n${tool.mock.source}`,
+    args: [args],
+    timeoutMs: TOOL_MOCK_TIME_LIMIT_MS,
+  })
+  if (!outcome.ok) {
+    return `Error in the mock of ${call.name}: ${outcome.error}`
+  }
+  const result = outcome.value
+  if (result === undefined) return ''
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
+
+/**
+ * One response for the steps of a tool-calling loop: the last step's content
+ * and calls, with the token usage, cost and duration of every step added up
+ */
+export function combineResponses(previous: CompletionResponse | null, next: CompletionResponse): CompletionResponse {
+  if (!previous) return next
+
+  const add = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0))
+  const costBreakdown = previous.costBreakdown && next.costBreakdown
+    ? {
+        input: previous.costBreakdown.input + next.costBreakdown.input,
+        cachedInput: previous.costBreakdown.cachedInput + next.costBreakdown.cachedInput,
+        output: previous.costBreakdown.output + next.costBreakdown.output,
+        reasoning: previous.costBreakdown.reasoning + next.costBreakdown.reasoning,
+        total: previous.costBreakdown.total + next.costBreakdown.total
+      }
+    : undefined
+
+  return {
+    ...next,
+    inputTokens: previous.inputTokens + next.inputTokens,
+    outputTokens: previous.outputTokens + next.outputTokens,
+    cachedInputTokens: add(previous.cachedInputTokens, next.cachedInputTokens),
+    reasoningTokens: add(previous.reasoningTokens, next.reasoningTokens),
+    duration: previous.duration + next.duration,
+    cost: previous.cost + next.cost,
+    costBreakdown,
+    metadata: { ...next.metadata, toolSteps: (previous.metadata?.toolSteps ?? 1) + 1 }
+  }
+}
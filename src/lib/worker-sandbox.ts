@@ -0,0 +1,178 @@
+/**
+ * Runs user-written JavaScript (custom evaluators, tool mocks) in a Web
+ * Worker in the browser, never on the server
+ *
+ * Before any user code runs, the worker removes its network, storage and
+ * messaging globals (`fetch`, `XMLHttpRequest`, `WebSocket`, `EventSource`,
+ * `importScripts`, `indexedDB`, `caches`, nested workers and the like) from
+ * the global object and its prototypes, so a script cannot call this app's
+ * API routes or send its data elsewhere. `import()` cannot be removed, but the
+ * app's Content-Security-Policy (next.config.js), which workers inherit, only
+ * allows scripts from this app. The worker has no DOM either.
+ *
+ * Limits:
+ * - time: the worker is terminated after the caller's time limit
+ * - memory: browsers cannot cap a worker's heap, so instead the code and its
+ *   arguments are capped at MAX_WORKER_INPUT_CHARS, the result at
+ *   MAX_WORKER_RESULT_CHARS and the log at MAX_LOG_LINES lines; every run
+ *   gets a fresh worker that is terminated once it settles, and at most
+ *   MAX_CONCURRENT_WORKERS are alive at once
+ *
+ * Arguments and results cross as JSON text, so only plain data goes in and
+ * comes out.
+ */
+
+export const MAX_WORKER_INPUT_CHARS = 1_000_000
+export const MAX_WORKER_RESULT_CHARS = 100_000
+export const MAX_LOG_LINES = 100
+const MAX_LOG_LINE_CHARS = 1000
+/** Most workers alive at once; further runs wait for one to finish */
+export const MAX_CONCURRENT_WORKERS = 4
+
+/** Result of the code, or the error that stopped it, with anything it logged */
+export type WorkerRunOutcome =
+  | { ok: true; value: unknown; logs: string[] }
+  | { ok: false; error: string; logs: string[] }
+
+export interface WorkerRunRequest {
+  /** Names the code sees its arguments as */
+  params: string[]
+  /** Body of the function that is run; what it returns (or resolves to) is the value */
+  body: string
+  /** Arguments, which must be JSON-serializable */
+  args: unknown[]
+  timeoutMs: number
+}
+
+// Message in: `{ params, body, data }` with the arguments as JSON text;
+// message out: `{ ok, json | error, logs }`. Everything is wrapped in a
+// function so none of its names are globals the user code could reach.
+const WORKER_SOURCE = `
+(() => {
+  const BLOCKED_GLOBALS = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'WebTransport', 'EventSource',
+    'importScripts', 'indexedDB', 'caches', 'cookieStore', 'navigator', 'BroadcastChannel',
+    'Worker', 'SharedWorker', 'FontFace', 'fonts', 'Notification', 'postMessage',
+  ]
+  const post = self.postMessage.bind(self)
+
+  for (let scope = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (Object.prototype.hasOwnProperty.call(scope, name)) delete scope[name]
+    }
+  }
+  for (const name of BLOCKED_GLOBALS) {
+    try {
+      Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false })
+    } catch {
+      // Already removed for good
+    }
+  }
+
+  const logs = []
+  const format = value => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value)
+    return String(text).slice(0, ${MAX_LOG_LINE_CHARS})
+  }
+  const console = {
+    log: (...args) => { if (logs.length < ${MAX_LOG_LINES}) logs.push(args.map(format).join(' ')) },
+  }
+  console.info = console.warn = console.error = console.debug = console.log
+
+  const describeError = error =>
+    error && error.name ? error.name + ': ' + error.message : String(error)
+
+  self.onmessage = async ({ data: { params, body, data } }) => {
+    let json
+    try {
+      const value = await new Function('console', ...params, body)(console, ...JSON.parse(data))
+      json = value === undefined ? undefined : JSON.stringify(value)
+    } catch (error) {
+      post({ ok: false, error: describeError(error), logs })
+      return
+    }
+    if (json !== undefined && json.length > ${MAX_WORKER_RESULT_CHARS}) {
+      post({ ok: false, error: 'The result is larger than ${MAX_WORKER_RESULT_CHARS} characters', logs })
+      return
+    }
+    post({ ok: true, json, logs })
+  }
+})()
+`
+
+type WorkerMessage =
+  | { ok: true; json?: string; logs: string[] }
+  | { ok: false; error: string; logs: string[] }
+
+let activeWorkers = 0
+const waitingRuns: (() => void)[] = []
+
+/**
+ * Wait for a worker slot; the caller must release it when done
+ */
+function acquireWorkerSlot(): Promise<void> {
+  if (activeWorkers < MAX_CONCURRENT_WORKERS) {
+    activeWorkers++
+    return Promise.resolve()
+  }
+  // The slot is handed over by releaseWorkerSlot, so the count stays as is
+  return new Promise(resolve => waitingRuns.push(resolve))
+}
+
+function releaseWorkerSlot() {
+  const next = waitingRuns.shift()
+  if (next) next()
+  else activeWorkers--
+}
+
+/**
+ * Run a function body in a fresh worker. Syntax errors, exceptions,
+ * time-outs and oversized inputs or results come back as failed outcomes.
+ */
+export async function runInWorker({ params, body, args, timeoutMs }: WorkerRunRequest): Promise<WorkerRunOutcome> {
+  let data: string
+  try {
+    data = JSON.stringify(args)
+  } catch {
+    return { ok: false, error: 'The arguments cannot be serialized as JSON', logs: [] }
+  }
+  if (body.length + data.length > MAX_WORKER_INPUT_CHARS) {
+    return { ok: false, error: `The code and its input are larger than ${MAX_WORKER_INPUT_CHARS} characters`, logs: [] }
+  }
+
+  await acquireWorkerSlot()
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }))
+    const worker = new Worker(url)
+
+    let settled = false
+    const settle = (outcome: WorkerRunOutcome) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      worker.terminate()
+      URL.revokeObjectURL(url)
+      releaseWorkerSlot()
+      resolve(outcome)
+    }
+
+    // Covers endless loops and promises that never settle
+    const timer = setTimeout(() => {
+      settle({ ok: false, error: `Timed out after ${timeoutMs / 1000}s`, logs: [] })
+    }, timeoutMs)
+
+    worker.onmessage = ({ data: message }: MessageEvent<WorkerMessage>) => {
+      if (!message.ok) {
+        settle(message)
+        return
+      }
+      settle({ ok: true, value: message.json === undefined ? undefined : JSON.parse(message.json), logs: message.logs })
+    }
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      settle({ ok: false, error: event.message || 'The worker failed', logs: [] })
+    }
+
+    worker.postMessage({ params, body, data })
+  })
+}